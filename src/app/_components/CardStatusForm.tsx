@@ -2,11 +2,12 @@
 
 import * as React from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useForm } from "react-hook-form";
+import { useForm, useWatch } from "react-hook-form";
 import { z } from "zod";
 import { ArrowPathIcon, MagnifyingGlassIcon } from "@heroicons/react/24/solid";
 
 import { StatusTimeline } from "@/app/_components/StatusTimeline";
+import { GouvernoratCombobox } from "@/components/GouvernoratCombobox";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
@@ -21,12 +22,17 @@ import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useAppToast } from "@/components/toast/toast";
 import { useI18n, type TFunction } from "@/i18n/I18nProvider";
-import { getIntlLocale } from "@/i18n/i18n";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
 import {
   ApiClientError,
   publicGetCardStatus,
   type CardStatusResponse,
 } from "@/lib/api/client";
+import {
+  normalizeGouvernorat,
+  postalCodeMatchesGouvernorat,
+} from "@/lib/gouvernorats";
+import { useCooldown } from "@/lib/use-cooldown";
 import { cn } from "@/lib/utils";
 
 function makeCardStatusSchema(t: TFunction) {
@@ -59,15 +65,6 @@ function makeCardStatusSchema(t: TFunction) {
 
 type CardStatusFormValues = z.infer<ReturnType<typeof makeCardStatusSchema>>;
 
-function formatDateTime(iso: string, intlLocale: string): string {
-  const d = new Date(iso);
-  if (Number.isNaN(d.getTime())) return iso;
-  return new Intl.DateTimeFormat(intlLocale, {
-    dateStyle: "medium",
-    timeStyle: "short",
-  }).format(d);
-}
-
 export function CardStatusForm() {
   const { t, locale } = useI18n();
   const toast = useAppToast();
@@ -78,19 +75,11 @@ export function CardStatusForm() {
   const [result, setResult] = React.useState<CardStatusResponse | null>(null);
   const [notFound, setNotFound] = React.useState(false);
   const [loading, setLoading] = React.useState(false);
-  const [cooldownSeconds, setCooldownSeconds] = React.useState(0);
+  const cooldown = useCooldown();
+  const cooldownSeconds = cooldown.seconds;
 
   const abortRef = React.useRef<AbortController | null>(null);
 
-  React.useEffect(() => {
-    if (cooldownSeconds <= 0) return;
-    const id = window.setTimeout(
-      () => setCooldownSeconds((s) => Math.max(0, s - 1)),
-      1000
-    );
-    return () => window.clearTimeout(id);
-  }, [cooldownSeconds]);
-
   const form = useForm<CardStatusFormValues>({
     resolver: zodResolver(cardStatusSchema),
     defaultValues: {
@@ -103,6 +92,13 @@ export function CardStatusForm() {
     mode: "onBlur",
   });
 
+  const [codePostal, gouvernorat] = useWatch({
+    control: form.control,
+    name: ["codePostal", "gouvernorat"],
+  });
+  const postalCodeMismatch =
+    postalCodeMatchesGouvernorat(codePostal, gouvernorat) === false;
+
   async function onSubmit(values: CardStatusFormValues) {
     if (cooldownSeconds > 0) return;
 
@@ -115,9 +111,12 @@ export function CardStatusForm() {
     setResult(null);
 
     try {
-      const res = await publicGetCardStatus(values, {
-        signal: controller.signal,
-      });
+      const res = await publicGetCardStatus(
+        { ...values, gouvernorat: normalizeGouvernorat(values.gouvernorat) },
+        {
+          signal: controller.signal,
+        }
+      );
       setResult(res);
       toast.success(t("toast.success"), t("toast.statusFetched"));
     } catch (e) {
@@ -134,7 +133,7 @@ export function CardStatusForm() {
           );
           return;
         }
-        if (e.status === 429) setCooldownSeconds(e.retryAfterSeconds ?? 30);
+        if (e.status === 429) cooldown.start(e.retryAfterSeconds ?? 30);
       }
 
       toast.apiError(e);
@@ -147,7 +146,7 @@ export function CardStatusForm() {
     abortRef.current?.abort();
     setResult(null);
     setNotFound(false);
-    setCooldownSeconds(0);
+    cooldown.reset();
     form.reset();
   }
 
@@ -243,13 +242,20 @@ export function CardStatusForm() {
                 <FormItem>
                   <FormLabel>{t("public.form.gouvernorat")}</FormLabel>
                   <FormControl>
-                    <Input
-                      autoComplete="address-level1"
+                    <GouvernoratCombobox
+                      name={field.name}
+                      value={field.value}
+                      onChange={field.onChange}
+                      onBlur={field.onBlur}
                       placeholder={t("public.form.placeholder.gouvernorat")}
-                      {...field}
                     />
                   </FormControl>
                   <FormMessage />
+                  {postalCodeMismatch ? (
+                    <p className="text-sm text-amber-600 dark:text-amber-500">
+                      {t("public.form.codePostalMismatch")}
+                    </p>
+                  ) : null}
                 </FormItem>
               )}
             />
@@ -303,7 +309,10 @@ export function CardStatusForm() {
           </div>
         ) : result ? (
           <div className="space-y-4">
-            <StatusTimeline status={result.status} />
+            <StatusTimeline
+              status={result.status}
+              history={result.statusHistory}
+            />
 
             <Card className="border-border/60 bg-card/80 backdrop-blur">
               <CardHeader className="pb-3">
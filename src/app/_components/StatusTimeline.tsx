@@ -2,25 +2,35 @@
 
 import { Badge } from "@/components/ui/badge";
 import { useI18n } from "@/i18n/I18nProvider";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import { getStatusLabel } from "@/i18n/labels";
+import {
+  type CardRequestStatus,
+  type CardStatusResponse,
+} from "@/lib/api/client";
+import { STATUS_FLOW, isCardRequestStatus } from "@/lib/status-lifecycle";
 import { cn } from "@/lib/utils";
 
-type StepKey = "CREATED" | "IN_PROGRESS" | "READY" | "DELIVERED" | "CANCELLED";
+type StepKey = CardRequestStatus;
 
-const steps: Array<{
-  key: StepKey;
-  tone: "default" | "success" | "warning" | "destructive";
-}> = [
-  { key: "CREATED", tone: "default" },
-  { key: "IN_PROGRESS", tone: "warning" },
-  { key: "READY", tone: "success" },
-  { key: "DELIVERED", tone: "success" },
-  { key: "CANCELLED", tone: "destructive" },
-];
+type Tone = "default" | "success" | "warning" | "destructive";
+
+const toneByStatus: Record<StepKey, Tone> = {
+  CREATED: "default",
+  IN_PROGRESS: "warning",
+  READY: "success",
+  DELIVERED: "success",
+  CANCELLED: "destructive",
+};
+
+// The linear flow, followed by the terminal CANCELLED branch.
+const steps: Array<{ key: StepKey; tone: Tone }> = [
+  ...STATUS_FLOW,
+  "CANCELLED" as const,
+].map((key) => ({ key, tone: toneByStatus[key] }));
 
 function toStepKey(status: string): StepKey | null {
-  return (
-    (steps.find((s) => s.key === status)?.key as StepKey | undefined) ?? null
-  );
+  return isCardRequestStatus(status) ? status : null;
 }
 
 function getStepState(current: StepKey | null, step: StepKey) {
@@ -32,26 +42,48 @@ function getStepState(current: StepKey | null, step: StepKey) {
       cancelled: step !== "CANCELLED",
     };
   }
-  const currentIndex = steps.findIndex((s) => s.key === current);
-  const stepIndex = steps.findIndex((s) => s.key === step);
+  const flow: readonly StepKey[] = STATUS_FLOW;
+  const currentIndex = flow.indexOf(current);
+  const stepIndex = flow.indexOf(step);
   return {
     active: step === current,
-    done: stepIndex <= currentIndex,
+    done: stepIndex !== -1 && stepIndex <= currentIndex,
     cancelled: false,
   };
 }
 
-export function StatusTimeline({ status }: { status: string }) {
+// Latest time each status was reached (a status can be re-entered after a
+// forced update).
+function getReachedAt(history: CardStatusResponse["statusHistory"]) {
+  const reachedAt = new Map<string, string>();
+  for (const entry of history ?? []) {
+    const prev = reachedAt.get(entry.status);
+    if (!prev || prev < entry.changedAt) {
+      reachedAt.set(entry.status, entry.changedAt);
+    }
+  }
+  return reachedAt;
+}
+
+export function StatusTimeline({
+  status,
+  history,
+}: {
+  status: string;
+  history?: CardStatusResponse["statusHistory"];
+}) {
   const { t, locale } = useI18n();
   const current = toStepKey(status);
   const isRtl = locale === "ar";
+  const intlLocale = getIntlLocale(locale);
+  const reachedAt = getReachedAt(history);
 
   return (
     <div className="rounded-xl border border-border/60 bg-background/60 p-4">
       <div className="flex flex-wrap items-center justify-between gap-3">
         <p className="text-sm font-semibold">{t("public.result.title")}</p>
         <Badge variant="secondary" className="rounded-lg">
-          {current ? t(`status.${current}`) : status}
+          {getStatusLabel(t, status)}
         </Badge>
       </div>
 
@@ -65,6 +97,7 @@ export function StatusTimeline({ status }: { status: string }) {
           {steps.map((s, idx) => {
             const { active, done, cancelled } = getStepState(current, s.key);
             const isLast = idx === steps.length - 1;
+            const date = (done || active) && reachedAt.get(s.key);
             return (
               <li
                 key={s.key}
@@ -112,6 +145,13 @@ export function StatusTimeline({ status }: { status: string }) {
                     </Badge>
                   ) : null}
                 </div>
+                {date ? (
+                  <p className="mt-0.5 text-xs text-muted-foreground">
+                    {t("public.timeline.reachedAt", {
+                      date: formatDateTime(date, intlLocale),
+                    })}
+                  </p>
+                ) : null}
               </li>
             );
           })}
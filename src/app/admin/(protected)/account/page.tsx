@@ -0,0 +1,52 @@
+'use client';
+
+import * as React from 'react';
+
+import { useI18n } from '@/i18n/I18nProvider';
+import { AdminSessionsList } from '@/app/admin/_components/AdminSessionsList';
+import { ChangePasswordForm } from '@/app/admin/_components/ChangePasswordForm';
+import { MfaSettings } from '@/app/admin/_components/MfaSettings';
+import { Separator } from '@/components/ui/separator';
+
+export default function AdminAccountPage() {
+  const { t } = useI18n();
+  // Changing the password may end the other sessions: reload the list.
+  const [sessionsKey, setSessionsKey] = React.useState(0);
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">{t('admin.account.title')}</h1>
+        <p className="text-sm text-muted-foreground">{t('admin.account.subtitle')}</p>
+      </div>
+
+      <section className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t('admin.account.password.title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('admin.account.password.desc')}</p>
+        </div>
+        <ChangePasswordForm onChanged={() => setSessionsKey((k) => k + 1)} />
+      </section>
+
+      <Separator className="my-8" />
+
+      <section className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t('admin.account.mfa.title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('admin.account.mfa.desc')}</p>
+        </div>
+        <MfaSettings />
+      </section>
+
+      <Separator className="my-8" />
+
+      <section className="space-y-4">
+        <div>
+          <h2 className="text-lg font-semibold">{t('admin.account.sessions.title')}</h2>
+          <p className="text-sm text-muted-foreground">{t('admin.account.sessions.desc')}</p>
+        </div>
+        <AdminSessionsList refreshKey={sessionsKey} />
+      </section>
+    </div>
+  );
+}
@@ -2,12 +2,13 @@
 
 import * as React from "react";
 import Link from "next/link";
-import { useRouter } from "next/navigation";
+import { usePathname, useRouter } from "next/navigation";
 import {
   ArrowRightOnRectangleIcon,
   ShieldCheckIcon,
 } from "@heroicons/react/24/solid";
 
+import { IdleTimeoutDialog } from "@/app/admin/_components/IdleTimeoutDialog";
 import { LocaleSwitcher } from "@/components/LocaleSwitcher";
 import { useAppToast } from "@/components/toast/toast";
 import { Button } from "@/components/ui/button";
@@ -15,6 +16,18 @@ import { Card } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useI18n } from "@/i18n/I18nProvider";
 import { useAuth } from "@/lib/auth/auth-context";
+import { getLoginHref } from "@/lib/auth/login-redirect";
+import { type Permission, usePermissions } from "@/lib/auth/permissions";
+
+const adminNav: ReadonlyArray<{
+  href: string;
+  label: "nav.requests" | "nav.stats" | "nav.users";
+  permission?: Permission;
+}> = [
+  { href: "/admin", label: "nav.requests" },
+  { href: "/admin/stats", label: "nav.stats" },
+  { href: "/admin/users", label: "nav.users", permission: "users.manage" },
+];
 
 export default function AdminProtectedLayout({
   children,
@@ -23,19 +36,27 @@ export default function AdminProtectedLayout({
 }) {
   const { t } = useI18n();
   const router = useRouter();
+  const pathname = usePathname();
   const toast = useAppToast();
   const auth = useAuth();
+  const permissions = usePermissions();
 
   React.useEffect(() => {
-    if (auth.status === "unauthenticated") {
-      router.replace("/admin/login");
+    // A login waiting for its second step is finished on the login page.
+    if (auth.status === "unauthenticated" || auth.status === "mfa_required") {
+      router.replace(
+        getLoginHref({
+          returnTo: `${window.location.pathname}${window.location.search}`,
+          reason: auth.signOutReason,
+        })
+      );
     }
-  }, [auth.status, router]);
+  }, [auth.status, auth.signOutReason, router]);
 
   async function onLogout() {
     await auth.logout();
     toast.success(t("toast.success"), t("admin.logout.successToast"));
-    router.replace("/admin/login");
+    router.replace(getLoginHref());
   }
 
   if (auth.status === "loading") {
@@ -67,10 +88,35 @@ export default function AdminProtectedLayout({
             </div>
             <div className="leading-tight">
               <p className="text-sm font-semibold">{t("admin.title")}</p>
-              <p className="text-xs text-muted-foreground">
-                {auth.admin?.username ?? "—"}
-              </p>
+              {auth.admin ? (
+                <Link
+                  href="/admin/account"
+                  className="text-xs text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+                  title={t("admin.account.title")}
+                >
+                  {auth.admin.username} · {t(`admin.roles.${auth.admin.role}`)}
+                </Link>
+              ) : (
+                <p className="text-xs text-muted-foreground">—</p>
+              )}
             </div>
+            <nav className="ms-2 hidden items-center gap-1 md:flex">
+              {adminNav
+                .filter(
+                  (item) => !item.permission || permissions.can(item.permission)
+                )
+                .map((item) => (
+                  <Button
+                    key={item.href}
+                    asChild
+                    variant={pathname === item.href ? "secondary" : "ghost"}
+                    size="sm"
+                    className="rounded-lg"
+                  >
+                    <Link href={item.href}>{t(item.label)}</Link>
+                  </Button>
+                ))}
+            </nav>
           </div>
 
           <div className="flex items-center gap-2">
@@ -91,6 +137,8 @@ export default function AdminProtectedLayout({
           {children}
         </Card>
       </main>
+
+      <IdleTimeoutDialog />
     </div>
   );
 }
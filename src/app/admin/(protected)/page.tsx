@@ -1,5 +1,7 @@
 'use client';
 
+import * as React from 'react';
+
 import { useI18n } from '@/i18n/I18nProvider';
 import { CardRequestsTable } from '@/app/admin/_components/CardRequestsTable';
 
@@ -13,9 +15,10 @@ export default function AdminHomePage() {
         <p className="text-sm text-muted-foreground">{t('admin.dashboard.subtitle')}</p>
       </div>
 
-      <CardRequestsTable />
+      {/* The table reads its query from the URL (useSearchParams). */}
+      <React.Suspense fallback={null}>
+        <CardRequestsTable />
+      </React.Suspense>
     </div>
   );
 }
-
-
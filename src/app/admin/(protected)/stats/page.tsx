@@ -0,0 +1,19 @@
+'use client';
+
+import { useI18n } from '@/i18n/I18nProvider';
+import { StatsDashboard } from '@/app/admin/_components/StatsDashboard';
+
+export default function AdminStatsPage() {
+  const { t } = useI18n();
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">{t('admin.stats.title')}</h1>
+        <p className="text-sm text-muted-foreground">{t('admin.stats.subtitle')}</p>
+      </div>
+
+      <StatsDashboard />
+    </div>
+  );
+}
@@ -0,0 +1,27 @@
+'use client';
+
+import { useI18n } from '@/i18n/I18nProvider';
+import { AdminUsersTable } from '@/app/admin/_components/AdminUsersTable';
+import { usePermissions } from '@/lib/auth/permissions';
+
+export default function AdminUsersPage() {
+  const { t } = useI18n();
+  const permissions = usePermissions();
+
+  return (
+    <div>
+      <div className="mb-6">
+        <h1 className="text-2xl font-semibold tracking-tight">{t('admin.users.title')}</h1>
+        <p className="text-sm text-muted-foreground">{t('admin.users.subtitle')}</p>
+      </div>
+
+      {permissions.can('users.manage') ? (
+        <AdminUsersTable />
+      ) : (
+        <p className="rounded-xl border border-border/60 bg-background/60 p-4 text-sm text-muted-foreground">
+          {t('admin.users.forbidden')}
+        </p>
+      )}
+    </div>
+  );
+}
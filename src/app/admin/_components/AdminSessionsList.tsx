@@ -0,0 +1,252 @@
+"use client";
+
+import * as React from "react";
+import {
+  ArrowPathIcon,
+  ArrowRightOnRectangleIcon,
+  ComputerDesktopIcon,
+  DevicePhoneMobileIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/solid";
+
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useAppToast } from "@/components/toast/toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useI18n } from "@/i18n/I18nProvider";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import {
+  adminListSessions,
+  adminRevokeAllSessions,
+  adminRevokeSession,
+  type AdminSession,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { endSession } from "@/lib/auth/session-channel";
+
+const BROWSERS: ReadonlyArray<[RegExp, string]> = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: ReadonlyArray<[RegExp, string]> = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad/, "iOS"],
+  [/Mac OS X/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+/** "Firefox · Windows" from a user agent, or null when nothing is known. */
+function describeUserAgent(userAgent: string | null): string | null {
+  if (!userAgent) return null;
+  const browser = BROWSERS.find(([re]) => re.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([re]) => re.test(userAgent))?.[1];
+  const parts = [browser, system].filter(Boolean);
+  return parts.length ? parts.join(" · ") : null;
+}
+
+function isMobile(userAgent: string | null): boolean {
+  return !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+}
+
+/**
+ * The signed-in admin's refresh sessions. `refreshKey` reloads the list,
+ * e.g. after a password change closed the other sessions.
+ */
+export function AdminSessionsList({ refreshKey = 0 }: { refreshKey?: number }) {
+  const { t, locale } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const [items, setItems] = React.useState<AdminSession[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [target, setTarget] = React.useState<AdminSession | "all" | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
+
+  const refresh = React.useCallback(async () => {
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    try {
+      const res = await adminListSessions({
+        accessToken,
+        onAccessTokenRefreshed: setAccessToken,
+        signal: controller.signal,
+      });
+      // Current session first, then the most recently used.
+      setItems(
+        [...res.items].sort(
+          (a, b) =>
+            Number(b.current) - Number(a.current) ||
+            b.lastUsedAt.localeCompare(a.lastUsedAt)
+        )
+      );
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [authStatus, getAccessToken, setAccessToken, toast]);
+
+  React.useEffect(() => {
+    void refresh();
+    return () => abortRef.current?.abort();
+  }, [refresh, refreshKey]);
+
+  async function revoke(): Promise<boolean> {
+    if (!auth.accessToken || !target) return false;
+    const opts = {
+      accessToken: auth.accessToken,
+      onAccessTokenRefreshed: auth.setAccessToken,
+    };
+    try {
+      if (target === "all") {
+        await adminRevokeAllSessions(opts);
+        // This browser's session is gone too: sign every tab out.
+        endSession("revoked");
+        return true;
+      }
+      await adminRevokeSession(target.id, opts);
+      toast.success(
+        t("toast.success"),
+        t("admin.account.sessions.revokedToast")
+      );
+      void refresh();
+      return true;
+    } catch (e) {
+      toast.apiError(e);
+      return false;
+    }
+  }
+
+  const intlLocale = getIntlLocale(locale);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          className="rounded-xl"
+          disabled={loading}
+          onClick={() => void refresh()}
+        >
+          <ArrowPathIcon
+            className={loading ? "size-4 animate-spin" : "size-4"}
+          />
+          {t("admin.account.sessions.refresh")}
+        </Button>
+        <Button
+          type="button"
+          variant="destructive"
+          className="rounded-xl"
+          disabled={items.length === 0}
+          onClick={() => setTarget("all")}
+        >
+          <ArrowRightOnRectangleIcon className="size-4" />
+          {t("admin.account.sessions.revokeAll")}
+        </Button>
+      </div>
+
+      {loading && items.length === 0 ? (
+        <div className="grid gap-2">
+          <Skeleton className="h-16 w-full rounded-xl" />
+          <Skeleton className="h-16 w-full rounded-xl" />
+        </div>
+      ) : items.length === 0 ? (
+        <p className="rounded-xl border border-border/60 bg-background/60 py-8 text-center text-sm text-muted-foreground">
+          {t("admin.account.sessions.empty")}
+        </p>
+      ) : (
+        <ul className="grid gap-2">
+          {items.map((s) => {
+            const Icon = isMobile(s.userAgent)
+              ? DevicePhoneMobileIcon
+              : ComputerDesktopIcon;
+            return (
+              <li
+                key={s.id}
+                className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/60 bg-background/60 p-3"
+              >
+                <div className="flex min-w-0 items-center gap-3">
+                  <div className="flex size-9 shrink-0 items-center justify-center rounded-xl border border-border/60 bg-card/70">
+                    <Icon className="size-4" />
+                  </div>
+                  <div className="min-w-0 leading-tight">
+                    <p className="flex items-center gap-2 text-sm font-medium">
+                      <span className="truncate">
+                        {describeUserAgent(s.userAgent) ??
+                          t("admin.account.sessions.unknownDevice")}
+                      </span>
+                      {s.current ? (
+                        <Badge variant="secondary">
+                          {t("admin.account.sessions.current")}
+                        </Badge>
+                      ) : null}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {t("admin.account.sessions.details", {
+                        ip: s.ip ?? "—",
+                        lastUsedAt: formatDateTime(s.lastUsedAt, intlLocale),
+                      })}
+                    </p>
+                  </div>
+                </div>
+                {s.current ? null : (
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    className="rounded-xl"
+                    onClick={() => setTarget(s)}
+                  >
+                    <XMarkIcon className="size-4" />
+                    {t("admin.account.sessions.revoke")}
+                  </Button>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <ConfirmDialog
+        open={target !== null}
+        onOpenChange={(open) => {
+          if (!open) setTarget(null);
+        }}
+        title={
+          target === "all"
+            ? t("admin.account.sessions.revokeAllTitle")
+            : t("admin.account.sessions.revokeTitle")
+        }
+        description={
+          target === "all"
+            ? t("admin.account.sessions.revokeAllDesc")
+            : t("admin.account.sessions.revokeDesc")
+        }
+        confirmLabel={
+          target === "all"
+            ? t("admin.account.sessions.revokeAll")
+            : t("admin.account.sessions.revoke")
+        }
+        destructive
+        onConfirm={revoke}
+      />
+    </div>
+  );
+}
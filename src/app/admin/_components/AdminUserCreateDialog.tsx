@@ -0,0 +1,189 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowPathIcon, UserPlusIcon } from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import {
+  AdminRoleFields,
+  NewPasswordFields,
+  checkAgentGouvernorats,
+  checkPasswordsMatch,
+  makePasswordShape,
+  roleShape,
+  toRoleBody,
+} from "@/app/admin/_components/AdminUserFields";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import { adminCreateUser, type AdminRole } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+
+function makeCreateUserSchema(t: TFunction) {
+  return z
+    .object({
+      username: z
+        .string()
+        .trim()
+        .regex(
+          /^[A-Za-z0-9._-]{3,50}$/,
+          t("admin.users.validation.usernameInvalid")
+        ),
+      ...makePasswordShape(t),
+      ...roleShape,
+    })
+    .superRefine((v, ctx) => {
+      checkPasswordsMatch(t, v, ctx);
+      checkAgentGouvernorats(t, v, ctx);
+    });
+}
+
+type CreateUserValues = z.infer<ReturnType<typeof makeCreateUserSchema>>;
+
+const createDefaultValues: CreateUserValues = {
+  username: "",
+  password: "",
+  confirmPassword: "",
+  role: "VIEWER",
+  gouvernorats: [],
+};
+
+export function AdminUserCreateDialog({
+  open,
+  onOpenChange,
+  roles,
+  onCreated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  roles: readonly AdminRole[];
+  onCreated: () => void;
+}) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const schema = React.useMemo(() => makeCreateUserSchema(t), [t]);
+  const form = useForm<CreateUserValues>({
+    resolver: zodResolver(schema),
+    defaultValues: createDefaultValues,
+    mode: "onBlur",
+  });
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) form.reset(createDefaultValues);
+  }, [open, form]);
+
+  async function onSubmit(values: CreateUserValues) {
+    if (!auth.accessToken) return;
+    setSubmitting(true);
+    try {
+      const created = await adminCreateUser(
+        {
+          username: values.username,
+          password: values.password,
+          ...toRoleBody(values),
+        },
+        {
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        }
+      );
+      toast.success(
+        t("toast.success"),
+        t("admin.users.createdToast", { username: created.username })
+      );
+      onOpenChange(false);
+      onCreated();
+    } catch (e) {
+      toast.apiError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!submitting) onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserPlusIcon className="size-4" />
+            {t("admin.users.createTitle")}
+          </DialogTitle>
+          <DialogDescription>{t("admin.users.createDesc")}</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            className="grid gap-4"
+            onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+          >
+            <FormField
+              control={form.control}
+              name="username"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("admin.users.field.username")}</FormLabel>
+                  <FormControl>
+                    <Input autoComplete="off" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <NewPasswordFields control={form.control} />
+            <AdminRoleFields control={form.control} roles={roles} />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="ghost"
+                className="rounded-xl"
+                disabled={submitting}
+                onClick={() => onOpenChange(false)}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                className="rounded-xl"
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ArrowPathIcon className="size-4 animate-spin" />
+                ) : null}
+                {t("admin.users.createSubmit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import * as React from "react";
+import {
+  useWatch,
+  type Control,
+  type FieldValues,
+  type Path,
+} from "react-hook-form";
+import { z } from "zod";
+
+import { PasswordStrengthMeter } from "@/app/admin/_components/PasswordStrengthMeter";
+import {
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import { ADMIN_ROLES, type AdminRole } from "@/lib/api/client";
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from "@/lib/auth/password";
+import { GOUVERNORATS, getGouvernoratLabel } from "@/lib/gouvernorats";
+
+// Field groups shared by the create, change-role and reset-password forms.
+// Each form builds its own `z.object` from these shapes and runs the checks
+// in its `superRefine`.
+
+export const roleShape = {
+  role: z.enum(ADMIN_ROLES),
+  gouvernorats: z.array(z.string()),
+};
+
+export type RoleValues = {
+  role: AdminRole;
+  gouvernorats: string[];
+};
+
+export function checkAgentGouvernorats(
+  t: TFunction,
+  v: RoleValues,
+  ctx: z.RefinementCtx
+) {
+  if (v.role === "AGENT" && v.gouvernorats.length === 0) {
+    ctx.addIssue({
+      code: "custom",
+      message: t("admin.users.validation.gouvernoratsRequired"),
+      path: ["gouvernorats"],
+    });
+  }
+}
+
+/** Only agents are scoped to governorates; other roles send none. */
+export function toRoleBody(v: RoleValues): RoleValues {
+  return {
+    role: v.role,
+    gouvernorats: v.role === "AGENT" ? v.gouvernorats : [],
+  };
+}
+
+/** Same length rules as the login form. */
+export function makePasswordShape(t: TFunction) {
+  return {
+    password: z
+      .string()
+      .min(PASSWORD_MIN_LENGTH, t("admin.login.validation.passwordMin"))
+      .max(PASSWORD_MAX_LENGTH),
+    confirmPassword: z.string(),
+  };
+}
+
+export function checkPasswordsMatch(
+  t: TFunction,
+  v: { password: string; confirmPassword: string },
+  ctx: z.RefinementCtx
+) {
+  if (v.password !== v.confirmPassword) {
+    ctx.addIssue({
+      code: "custom",
+      message: t("admin.users.validation.passwordMismatch"),
+      path: ["confirmPassword"],
+    });
+  }
+}
+
+export function AdminRoleFields<T extends FieldValues & RoleValues>({
+  control,
+  roles,
+}: {
+  control: Control<T>;
+  roles: readonly AdminRole[];
+}) {
+  const { t, locale } = useI18n();
+  const role = useWatch({ control, name: "role" as Path<T> }) as AdminRole;
+
+  const gouvernorats = React.useMemo(
+    () =>
+      [...GOUVERNORATS].sort((a, b) =>
+        getGouvernoratLabel(a, locale).localeCompare(
+          getGouvernoratLabel(b, locale),
+          locale
+        )
+      ),
+    [locale]
+  );
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name={"role" as Path<T>}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{t("admin.users.field.role")}</FormLabel>
+            <FormControl>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger className="w-full rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {roles.map((r) => (
+                    <SelectItem key={r} value={r}>
+                      {t(`admin.roles.${r}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      {role === "AGENT" ? (
+        <FormField
+          control={control}
+          name={"gouvernorats" as Path<T>}
+          render={({ field }) => {
+            const selected: string[] = field.value ?? [];
+            return (
+              <FormItem>
+                <FormLabel>{t("admin.users.field.gouvernorats")}</FormLabel>
+                <FormDescription>
+                  {t("admin.users.gouvernoratsHint")}
+                </FormDescription>
+                <div className="grid max-h-48 grid-cols-2 gap-1 overflow-y-auto rounded-xl border border-border/60 p-2 sm:grid-cols-3">
+                  {gouvernorats.map((g) => (
+                    <label
+                      key={g.value}
+                      className="flex cursor-pointer items-center gap-2 rounded-md px-1.5 py-1 text-sm hover:bg-accent/40"
+                    >
+                      <input
+                        type="checkbox"
+                        className="size-4 accent-primary"
+                        checked={selected.includes(g.value)}
+                        onChange={(e) =>
+                          field.onChange(
+                            e.target.checked
+                              ? [...selected, g.value]
+                              : selected.filter((v) => v !== g.value)
+                          )
+                        }
+                      />
+                      {getGouvernoratLabel(g, locale)}
+                    </label>
+                  ))}
+                </div>
+                <FormMessage />
+              </FormItem>
+            );
+          }}
+        />
+      ) : null}
+    </>
+  );
+}
+
+export function NewPasswordFields<
+  T extends FieldValues & { password: string; confirmPassword: string },
+>({ control, passwordLabel }: { control: Control<T>; passwordLabel?: string }) {
+  const { t } = useI18n();
+  const password = useWatch({ control, name: "password" as Path<T> }) as string;
+
+  return (
+    <div className="grid gap-4 sm:grid-cols-2">
+      <FormField
+        control={control}
+        name={"password" as Path<T>}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>
+              {passwordLabel ?? t("admin.users.field.password")}
+            </FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="new-password" {...field} />
+            </FormControl>
+            <PasswordStrengthMeter password={password ?? ""} />
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+      <FormField
+        control={control}
+        name={"confirmPassword" as Path<T>}
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{t("admin.users.field.confirmPassword")}</FormLabel>
+            <FormControl>
+              <Input type="password" autoComplete="new-password" {...field} />
+            </FormControl>
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+    </div>
+  );
+}
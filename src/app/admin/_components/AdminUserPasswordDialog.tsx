@@ -0,0 +1,145 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowPathIcon, KeyIcon } from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import {
+  NewPasswordFields,
+  checkPasswordsMatch,
+  makePasswordShape,
+} from "@/app/admin/_components/AdminUserFields";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import { adminResetUserPassword, type AdminUserItem } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+
+function makeResetPasswordSchema(t: TFunction) {
+  return z
+    .object(makePasswordShape(t))
+    .superRefine((v, ctx) => checkPasswordsMatch(t, v, ctx));
+}
+
+type ResetPasswordValues = z.infer<ReturnType<typeof makeResetPasswordSchema>>;
+
+const resetDefaultValues: ResetPasswordValues = {
+  password: "",
+  confirmPassword: "",
+};
+
+export function AdminUserPasswordDialog({
+  open,
+  onOpenChange,
+  user,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: AdminUserItem | null;
+}) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const schema = React.useMemo(() => makeResetPasswordSchema(t), [t]);
+  const form = useForm<ResetPasswordValues>({
+    resolver: zodResolver(schema),
+    defaultValues: resetDefaultValues,
+    mode: "onBlur",
+  });
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!open) form.reset(resetDefaultValues);
+  }, [open, form]);
+
+  async function onSubmit(values: ResetPasswordValues) {
+    if (!auth.accessToken || !user) return;
+    setSubmitting(true);
+    try {
+      await adminResetUserPassword(
+        user.id,
+        { password: values.password },
+        {
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        }
+      );
+      toast.success(
+        t("toast.success"),
+        t("admin.users.passwordResetToast", { username: user.username })
+      );
+      onOpenChange(false);
+    } catch (e) {
+      toast.apiError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!submitting) onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <KeyIcon className="size-4" />
+            {t("admin.users.passwordTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {user
+              ? t("admin.users.passwordDesc", { username: user.username })
+              : "—"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            className="grid gap-4"
+            onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+          >
+            <NewPasswordFields control={form.control} />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="ghost"
+                className="rounded-xl"
+                disabled={submitting}
+                onClick={() => onOpenChange(false)}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                variant="destructive"
+                className="rounded-xl"
+                disabled={submitting || !user}
+              >
+                {submitting ? (
+                  <ArrowPathIcon className="size-4 animate-spin" />
+                ) : null}
+                {t("admin.users.passwordSubmit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowPathIcon, UserGroupIcon } from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import {
+  AdminRoleFields,
+  checkAgentGouvernorats,
+  roleShape,
+  toRoleBody,
+} from "@/app/admin/_components/AdminUserFields";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import {
+  adminUpdateUser,
+  type AdminRole,
+  type AdminUserItem,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+
+function makeRoleSchema(t: TFunction) {
+  return z
+    .object(roleShape)
+    .superRefine((v, ctx) => checkAgentGouvernorats(t, v, ctx));
+}
+
+type RoleFormValues = z.infer<ReturnType<typeof makeRoleSchema>>;
+
+export function AdminUserRoleDialog({
+  open,
+  onOpenChange,
+  user,
+  roles,
+  onUpdated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: AdminUserItem | null;
+  roles: readonly AdminRole[];
+  onUpdated: () => void;
+}) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const schema = React.useMemo(() => makeRoleSchema(t), [t]);
+  const form = useForm<RoleFormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { role: "VIEWER", gouvernorats: [] },
+  });
+  const [submitting, setSubmitting] = React.useState(false);
+
+  React.useEffect(() => {
+    if (open && user) {
+      form.reset({ role: user.role, gouvernorats: user.gouvernorats });
+    }
+  }, [open, user, form]);
+
+  async function onSubmit(values: RoleFormValues) {
+    if (!auth.accessToken || !user) return;
+    setSubmitting(true);
+    try {
+      await adminUpdateUser(user.id, toRoleBody(values), {
+        accessToken: auth.accessToken,
+        onAccessTokenRefreshed: auth.setAccessToken,
+      });
+      toast.success(
+        t("toast.success"),
+        t("admin.users.roleUpdatedToast", { username: user.username })
+      );
+      onOpenChange(false);
+      onUpdated();
+    } catch (e) {
+      toast.apiError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!submitting) onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <UserGroupIcon className="size-4" />
+            {t("admin.users.roleTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {user
+              ? t("admin.users.roleDesc", { username: user.username })
+              : "—"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form
+            className="grid gap-4"
+            onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+          >
+            <AdminRoleFields control={form.control} roles={roles} />
+
+            <DialogFooter>
+              <Button
+                type="button"
+                variant="ghost"
+                className="rounded-xl"
+                disabled={submitting}
+                onClick={() => onOpenChange(false)}
+              >
+                {t("common.cancel")}
+              </Button>
+              <Button
+                type="submit"
+                className="rounded-xl"
+                disabled={submitting || !user}
+              >
+                {submitting ? (
+                  <ArrowPathIcon className="size-4 animate-spin" />
+                ) : null}
+                {t("admin.users.roleSubmit")}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,350 @@
+"use client";
+
+import * as React from "react";
+import {
+  ArrowPathIcon,
+  EllipsisVerticalIcon,
+  KeyIcon,
+  LockClosedIcon,
+  LockOpenIcon,
+  UserGroupIcon,
+  UserPlusIcon,
+} from "@heroicons/react/24/solid";
+
+import { AdminUserCreateDialog } from "@/app/admin/_components/AdminUserCreateDialog";
+import { AdminUserPasswordDialog } from "@/app/admin/_components/AdminUserPasswordDialog";
+import { AdminUserRoleDialog } from "@/app/admin/_components/AdminUserRoleDialog";
+import { ConfirmDialog } from "@/components/ConfirmDialog";
+import { useAppToast } from "@/components/toast/toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useI18n } from "@/i18n/I18nProvider";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import {
+  adminListUsers,
+  adminUpdateUser,
+  type AdminUserItem,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { getAssignableRoles } from "@/lib/auth/permissions";
+import { findGouvernorat, getGouvernoratLabel } from "@/lib/gouvernorats";
+import { cn } from "@/lib/utils";
+
+// username, role, gouvernorats, status, lastLoginAt, actions
+const columnCount = 6;
+
+type Action = "role" | "password" | "toggle";
+
+export function AdminUsersTable() {
+  const { t, locale } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const isRtl = locale === "ar";
+  const assignableRoles = React.useMemo(
+    () => getAssignableRoles(auth.admin),
+    [auth.admin]
+  );
+
+  const [items, setItems] = React.useState<AdminUserItem[]>([]);
+  const [loading, setLoading] = React.useState(false);
+  const [createOpen, setCreateOpen] = React.useState(false);
+  const [selected, setSelected] = React.useState<AdminUserItem | null>(null);
+  const [action, setAction] = React.useState<Action | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
+
+  const refresh = React.useCallback(async () => {
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    try {
+      const res = await adminListUsers({
+        accessToken,
+        onAccessTokenRefreshed: setAccessToken,
+        signal: controller.signal,
+      });
+      setItems(res.items);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [authStatus, getAccessToken, setAccessToken, toast]);
+
+  React.useEffect(() => {
+    void refresh();
+    return () => abortRef.current?.abort();
+  }, [refresh]);
+
+  function openAction(user: AdminUserItem, next: Action) {
+    setSelected(user);
+    setAction(next);
+  }
+
+  function closeAction(open: boolean) {
+    if (open) return;
+    setAction(null);
+    setSelected(null);
+  }
+
+  // Nobody edits their own account here, nor one ranked above them.
+  function canManage(user: AdminUserItem): boolean {
+    return user.id !== auth.admin?.id && assignableRoles.includes(user.role);
+  }
+
+  function gouvernoratsLabel(user: AdminUserItem): string {
+    if (user.role !== "AGENT") return t("admin.users.allGouvernorats");
+    if (user.gouvernorats.length === 0) return "—";
+    return user.gouvernorats
+      .map((value) => {
+        const g = findGouvernorat(value);
+        return g ? getGouvernoratLabel(g, locale) : value;
+      })
+      .join(", ");
+  }
+
+  async function toggleDisabled(): Promise<boolean> {
+    if (!auth.accessToken || !selected) return false;
+    const disabled = !selected.disabled;
+    try {
+      await adminUpdateUser(
+        selected.id,
+        { disabled },
+        {
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        }
+      );
+      toast.success(
+        t("toast.success"),
+        t(disabled ? "admin.users.disabledToast" : "admin.users.enabledToast", {
+          username: selected.username,
+        })
+      );
+      void refresh();
+      return true;
+    } catch (e) {
+      toast.apiError(e);
+      return false;
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          className="rounded-xl"
+          disabled={loading}
+          onClick={() => void refresh()}
+        >
+          <ArrowPathIcon className={cn("size-4", loading && "animate-spin")} />
+          {t("admin.users.refresh")}
+        </Button>
+        <Button
+          type="button"
+          className="rounded-xl"
+          onClick={() => setCreateOpen(true)}
+        >
+          <UserPlusIcon className="size-4" />
+          {t("admin.users.create")}
+        </Button>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-border/60 bg-background/60">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("admin.users.columns.username")}</TableHead>
+              <TableHead className="w-[140px]">
+                {t("admin.users.columns.role")}
+              </TableHead>
+              <TableHead>{t("admin.users.columns.gouvernorats")}</TableHead>
+              <TableHead className="w-[120px]">
+                {t("admin.users.columns.status")}
+              </TableHead>
+              <TableHead className="w-[200px]">
+                {t("admin.users.columns.lastLoginAt")}
+              </TableHead>
+              <TableHead
+                className={cn("w-[80px]", isRtl ? "text-left" : "text-right")}
+              >
+                {t("admin.users.columns.actions")}
+              </TableHead>
+            </TableRow>
+          </TableHeader>
+
+          <TableBody>
+            {loading && items.length === 0 ? (
+              Array.from({ length: 4 }).map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell colSpan={columnCount}>
+                    <div className="flex items-center gap-3">
+                      <Skeleton className="h-4 w-32" />
+                      <Skeleton className="h-4 w-20" />
+                      <Skeleton className="h-4 w-40" />
+                      <Skeleton className="h-4 w-16" />
+                      <Skeleton className="h-4 w-36" />
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : items.length === 0 ? (
+              <TableRow>
+                <TableCell
+                  colSpan={columnCount}
+                  className="py-10 text-center text-sm text-muted-foreground"
+                >
+                  {t("admin.users.empty")}
+                </TableCell>
+              </TableRow>
+            ) : (
+              items.map((u) => (
+                <TableRow key={u.id} className={cn(u.disabled && "opacity-70")}>
+                  <TableCell className="font-medium">
+                    {u.username}
+                    {u.id === auth.admin?.id ? (
+                      <span className="ms-2 text-xs text-muted-foreground">
+                        ({t("admin.users.you")})
+                      </span>
+                    ) : null}
+                  </TableCell>
+                  <TableCell>{t(`admin.roles.${u.role}`)}</TableCell>
+                  <TableCell className="max-w-[320px] truncate text-sm text-muted-foreground">
+                    {gouvernoratsLabel(u)}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={u.disabled ? "outline" : "secondary"}>
+                      {u.disabled
+                        ? t("admin.users.disabled")
+                        : t("admin.users.active")}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {u.lastLoginAt
+                      ? formatDateTime(u.lastLoginAt, getIntlLocale(locale))
+                      : t("admin.users.never")}
+                  </TableCell>
+                  <TableCell className={cn(isRtl ? "text-left" : "text-right")}>
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          className="rounded-xl"
+                          disabled={!canManage(u)}
+                          aria-label={t("admin.users.columns.actions")}
+                        >
+                          <EllipsisVerticalIcon className="size-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align={isRtl ? "start" : "end"}>
+                        <DropdownMenuItem
+                          onSelect={() => openAction(u, "role")}
+                        >
+                          <UserGroupIcon />
+                          {t("admin.users.actions.changeRole")}
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          onSelect={() => openAction(u, "password")}
+                        >
+                          <KeyIcon />
+                          {t("admin.users.actions.resetPassword")}
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem
+                          variant={u.disabled ? "default" : "destructive"}
+                          onSelect={() => openAction(u, "toggle")}
+                        >
+                          {u.disabled ? <LockOpenIcon /> : <LockClosedIcon />}
+                          {u.disabled
+                            ? t("admin.users.actions.enable")
+                            : t("admin.users.actions.disable")}
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AdminUserCreateDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        roles={assignableRoles}
+        onCreated={() => void refresh()}
+      />
+
+      <AdminUserRoleDialog
+        open={action === "role"}
+        onOpenChange={closeAction}
+        user={selected}
+        roles={assignableRoles}
+        onUpdated={() => void refresh()}
+      />
+
+      <AdminUserPasswordDialog
+        open={action === "password"}
+        onOpenChange={closeAction}
+        user={selected}
+      />
+
+      <ConfirmDialog
+        open={action === "toggle"}
+        onOpenChange={closeAction}
+        title={
+          selected?.disabled
+            ? t("admin.users.enableTitle")
+            : t("admin.users.disableTitle")
+        }
+        description={
+          selected
+            ? t(
+                selected.disabled
+                  ? "admin.users.enableDesc"
+                  : "admin.users.disableDesc",
+                { username: selected.username }
+              )
+            : ""
+        }
+        confirmLabel={
+          selected?.disabled
+            ? t("admin.users.actions.enable")
+            : t("admin.users.actions.disable")
+        }
+        destructive={!selected?.disabled}
+        onConfirm={toggleDisabled}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  ArrowPathIcon,
+  CheckCircleIcon,
+  ExclamationTriangleIcon,
+  QueueListIcon,
+} from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+
+import {
+  UpdateStatusFields,
+  makeUpdateSchema,
+  toUpdateBody,
+  updateDefaultValues,
+  type UpdateValues,
+} from "@/app/admin/_components/UpdateStatusForm";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form } from "@/components/ui/form";
+import { useI18n } from "@/i18n/I18nProvider";
+import {
+  bulkUpdateCardRequests,
+  type BulkUpdateResult,
+} from "@/lib/admin/card-requests-bulk";
+import { type AdminCardRequestUpdateBody } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+
+type Phase = "form" | "running" | "done";
+
+type FailedResult = Extract<BulkUpdateResult, { ok: false }>;
+
+export function BulkUpdateDialog({
+  open,
+  onOpenChange,
+  ids,
+  onCompleted,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  ids: readonly number[];
+  onCompleted: (succeededIds: number[]) => void;
+}) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const updateSchema = React.useMemo(() => makeUpdateSchema(t), [t]);
+  const form = useForm<UpdateValues>({
+    resolver: zodResolver(updateSchema),
+    defaultValues: updateDefaultValues,
+    mode: "onBlur",
+  });
+
+  const [phase, setPhase] = React.useState<Phase>("form");
+  const [runTotal, setRunTotal] = React.useState(0);
+  const [results, setResults] = React.useState<BulkUpdateResult[]>([]);
+  const [body, setBody] = React.useState<AdminCardRequestUpdateBody | null>(
+    null
+  );
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  React.useEffect(() => {
+    if (open) return;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    form.reset(updateDefaultValues);
+    setPhase("form");
+    setResults([]);
+    setBody(null);
+  }, [open, form]);
+
+  const failed = results.filter((r): r is FailedResult => !r.ok);
+  const succeededCount = results.length - failed.length;
+  const percent = runTotal ? Math.round((results.length / runTotal) * 100) : 0;
+
+  async function run(
+    targetIds: readonly number[],
+    nextBody: AdminCardRequestUpdateBody
+  ) {
+    if (!auth.accessToken || targetIds.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setBody(nextBody);
+    setRunTotal(targetIds.length);
+    setResults([]);
+    setPhase("running");
+
+    const collected: BulkUpdateResult[] = [];
+    try {
+      await bulkUpdateCardRequests(targetIds, nextBody, {
+        accessToken: auth.accessToken,
+        onAccessTokenRefreshed: auth.setAccessToken,
+        getAccessToken: auth.getAccessToken,
+        signal: controller.signal,
+        onProgress: (result) => {
+          collected.push(result);
+          setResults([...collected]);
+        },
+      });
+    } catch (e) {
+      if ((e as Error)?.name !== "AbortError") toast.apiError(e);
+    }
+
+    // The dialog was closed (and reset) while the run was finishing.
+    if (abortRef.current !== controller) return;
+    abortRef.current = null;
+
+    setPhase("done");
+    const okIds = collected.filter((r) => r.ok).map((r) => r.id);
+    if (okIds.length) onCompleted(okIds);
+    if (collected.length && collected.every((r) => r.ok)) {
+      toast.success(
+        t("toast.success"),
+        t("admin.bulk.successToast", { count: okIds.length })
+      );
+    }
+  }
+
+  function onSubmit(values: UpdateValues) {
+    void run(ids, toUpdateBody(values));
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        // Keep the dialog open while a run is in progress; use "Stop" instead.
+        if (!next && phase === "running") return;
+        onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <QueueListIcon className="size-4" />
+            {t("admin.bulk.title")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("admin.bulk.description", { count: ids.length })}
+          </DialogDescription>
+        </DialogHeader>
+
+        {phase === "form" ? (
+          <Form {...form}>
+            <form
+              className="grid gap-4"
+              onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+            >
+              <UpdateStatusFields control={form.control} />
+
+              <DialogFooter>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  className="rounded-xl"
+                  onClick={() => onOpenChange(false)}
+                >
+                  {t("common.cancel")}
+                </Button>
+                <Button
+                  type="submit"
+                  className="rounded-xl"
+                  disabled={ids.length === 0}
+                >
+                  {t("admin.bulk.apply", { count: ids.length })}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        ) : (
+          <div className="grid gap-4">
+            <div className="grid gap-2">
+              <div className="flex items-center justify-between gap-3 text-sm">
+                <span className="flex items-center gap-2 font-medium">
+                  {phase === "running" ? (
+                    <ArrowPathIcon className="size-4 animate-spin" />
+                  ) : failed.length ? (
+                    <ExclamationTriangleIcon className="size-4 text-destructive" />
+                  ) : (
+                    <CheckCircleIcon className="size-4 text-emerald-600" />
+                  )}
+                  {t("admin.bulk.progress", {
+                    done: results.length,
+                    total: runTotal,
+                  })}
+                </span>
+                <span className="text-xs text-muted-foreground">
+                  {t("admin.bulk.summary", {
+                    succeeded: succeededCount,
+                    failed: failed.length,
+                  })}
+                </span>
+              </div>
+              <div
+                className="h-2 overflow-hidden rounded-full bg-muted"
+                role="progressbar"
+                aria-valuemin={0}
+                aria-valuemax={100}
+                aria-valuenow={percent}
+              >
+                <div
+                  className="h-full bg-primary transition-[width]"
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+            </div>
+
+            {failed.length ? (
+              <div className="max-h-56 overflow-y-auto rounded-xl border border-border/60 bg-muted/20 p-3">
+                <p className="mb-2 text-sm font-semibold">
+                  {t("admin.bulk.failuresTitle")}
+                </p>
+                <ul className="grid gap-1.5 text-xs">
+                  {failed.map((r) => (
+                    <li
+                      key={r.id}
+                      className="flex flex-wrap items-center gap-2"
+                    >
+                      <span className="font-mono">#{r.id}</span>
+                      <span className="rounded-md bg-muted px-2 py-0.5 font-mono text-muted-foreground">
+                        {r.code}
+                      </span>
+                      {r.requestId ? (
+                        <span className="font-mono text-muted-foreground">
+                          {t("toast.requestId")}: {r.requestId}
+                        </span>
+                      ) : null}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
+
+            <DialogFooter>
+              {phase === "running" ? (
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="rounded-xl"
+                  onClick={() => abortRef.current?.abort()}
+                >
+                  {t("admin.bulk.stop")}
+                </Button>
+              ) : (
+                <>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    className="rounded-xl"
+                    onClick={() => onOpenChange(false)}
+                  >
+                    {t("common.close")}
+                  </Button>
+                  {failed.length && body ? (
+                    <Button
+                      type="button"
+                      className="rounded-xl"
+                      onClick={() =>
+                        void run(
+                          failed.map((r) => r.id),
+                          body
+                        )
+                      }
+                    >
+                      <ArrowPathIcon className="size-4" />
+                      {t("admin.bulk.retryFailed", { count: failed.length })}
+                    </Button>
+                  ) : null}
+                </>
+              )}
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
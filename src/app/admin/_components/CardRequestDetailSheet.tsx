@@ -0,0 +1,313 @@
+"use client";
+
+import * as React from "react";
+import {
+  CheckIcon,
+  ClipboardDocumentIcon,
+  DocumentTextIcon,
+} from "@heroicons/react/24/solid";
+
+import { CardRequestHistory } from "@/app/admin/_components/CardRequestHistory";
+import { StatusBadge } from "@/app/admin/_components/StatusBadge";
+import { UpdateStatusForm } from "@/app/admin/_components/UpdateStatusForm";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useI18n } from "@/i18n/I18nProvider";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import {
+  adminGetCardRequest,
+  type AdminCardRequestItem,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { cn } from "@/lib/utils";
+
+function CopyButton({ value, label }: { value: string; label: string }) {
+  const [copied, setCopied] = React.useState(false);
+
+  return (
+    <Button
+      type="button"
+      variant="ghost"
+      size="icon"
+      className={cn("size-7 rounded-lg", copied && "text-emerald-600")}
+      aria-label={label}
+      title={label}
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(value);
+          setCopied(true);
+          window.setTimeout(() => setCopied(false), 1200);
+        } catch {
+          // Clipboard may be unavailable; the value stays visible anyway.
+        }
+      }}
+    >
+      {copied ? (
+        <CheckIcon className="size-4" />
+      ) : (
+        <ClipboardDocumentIcon className="size-4" />
+      )}
+    </Button>
+  );
+}
+
+type DetailTab = "details" | "history";
+
+function DetailRow({
+  label,
+  children,
+  action,
+}: {
+  label: string;
+  children: React.ReactNode;
+  action?: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-start justify-between gap-3 py-1.5 text-sm">
+      <span className="text-muted-foreground">{label}</span>
+      <span className="flex items-center gap-1 text-end font-medium">
+        {children}
+        {action}
+      </span>
+    </div>
+  );
+}
+
+export function CardRequestDetailSheet({
+  open,
+  onOpenChange,
+  item,
+  onUpdated,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  item: AdminCardRequestItem | null;
+  onUpdated: () => void;
+}) {
+  const { t, locale } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const isRtl = locale === "ar";
+  const intlLocale = getIntlLocale(locale);
+
+  // Row data is shown immediately, then replaced by a fresh single-record fetch.
+  const [detail, setDetail] = React.useState<AdminCardRequestItem | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const itemId = item?.id ?? null;
+
+  const [tab, setTab] = React.useState<DetailTab>("details");
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
+
+  const load = React.useCallback(async () => {
+    if (itemId === null) return;
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    try {
+      const res = await adminGetCardRequest(itemId, {
+        accessToken,
+        onAccessTokenRefreshed: setAccessToken,
+        signal: controller.signal,
+      });
+      setDetail(res);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      if (abortRef.current === controller) setLoading(false);
+    }
+  }, [authStatus, getAccessToken, setAccessToken, itemId, toast]);
+
+  React.useEffect(() => {
+    if (!open) return;
+    void load();
+    return () => abortRef.current?.abort();
+  }, [open, load]);
+
+  React.useEffect(() => {
+    if (open) return;
+    setDetail(null);
+    setTab("details");
+  }, [open]);
+
+  const record = detail && detail.id === itemId ? detail : item;
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent
+        side={isRtl ? "left" : "right"}
+        className="w-full overflow-y-auto sm:max-w-lg"
+      >
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <DocumentTextIcon className="size-4" />
+            {t("admin.detail.title")}
+          </SheetTitle>
+          <SheetDescription>
+            {record ? (
+              <span>
+                {record.nom} {record.prenom}
+              </span>
+            ) : (
+              t("admin.updateStatus.selectRow")
+            )}
+          </SheetDescription>
+        </SheetHeader>
+
+        {record ? (
+          <div
+            role="tablist"
+            className="mx-4 grid grid-cols-2 gap-1 rounded-xl bg-muted p-1"
+          >
+            {(["details", "history"] as const).map((key) => (
+              <button
+                key={key}
+                type="button"
+                role="tab"
+                aria-selected={tab === key}
+                className={cn(
+                  "cursor-pointer rounded-lg px-3 py-1.5 text-sm font-medium transition-colors",
+                  tab === key
+                    ? "bg-background shadow-sm"
+                    : "text-muted-foreground hover:text-foreground"
+                )}
+                onClick={() => setTab(key)}
+              >
+                {t(`admin.detail.tabs.${key}`)}
+              </button>
+            ))}
+          </div>
+        ) : null}
+
+        {record && tab === "history" ? (
+          <div className="px-4 pb-6">
+            <CardRequestHistory id={record.id} version={record.updatedAt} />
+          </div>
+        ) : record ? (
+          <div className="grid gap-4 px-4 pb-6">
+            <section className="rounded-xl border border-border/60 bg-muted/20 p-3">
+              <p className="mb-1 text-sm font-semibold">
+                {t("admin.detail.identity")}
+              </p>
+              <DetailRow
+                label={t("admin.dashboard.columns.id")}
+                action={
+                  <CopyButton
+                    value={String(record.id)}
+                    label={t("admin.detail.copyId")}
+                  />
+                }
+              >
+                <span className="font-mono text-xs">{record.id}</span>
+              </DetailRow>
+              <DetailRow label={t("admin.dashboard.field.nom")}>
+                {record.nom}
+              </DetailRow>
+              <DetailRow label={t("admin.dashboard.field.prenom")}>
+                {record.prenom}
+              </DetailRow>
+              <DetailRow
+                label={t("admin.dashboard.field.cin")}
+                action={
+                  <CopyButton
+                    value={record.cin}
+                    label={t("admin.detail.copyCin")}
+                  />
+                }
+              >
+                <span className="font-mono text-xs">{record.cin}</span>
+              </DetailRow>
+              <DetailRow label={t("admin.dashboard.field.genre")}>
+                {record.genre === "M" || record.genre === "F"
+                  ? t(`admin.dashboard.genre.${record.genre}`)
+                  : (record.genre ?? "—")}
+              </DetailRow>
+            </section>
+
+            <section className="rounded-xl border border-border/60 bg-muted/20 p-3">
+              <p className="mb-1 text-sm font-semibold">
+                {t("admin.detail.request")}
+              </p>
+              <DetailRow label={t("admin.dashboard.field.status")}>
+                <StatusBadge status={record.status} />
+              </DetailRow>
+              <DetailRow label={t("admin.dashboard.field.institut")}>
+                {record.institut ?? "—"}
+              </DetailRow>
+              <DetailRow label={t("admin.dashboard.field.diplome")}>
+                {record.diplome ?? "—"}
+              </DetailRow>
+              <DetailRow label={t("admin.dashboard.field.gouvernorat")}>
+                {record.gouvernorat}
+              </DetailRow>
+              <DetailRow label={t("admin.detail.codePostal")}>
+                <span className="font-mono text-xs">{record.codePostal}</span>
+              </DetailRow>
+              <DetailRow label={t("admin.detail.createdAt")}>
+                {formatDateTime(record.createdAt, intlLocale)}
+              </DetailRow>
+              <DetailRow label={t("admin.detail.updatedAt")}>
+                {formatDateTime(record.updatedAt, intlLocale)}
+              </DetailRow>
+            </section>
+
+            <section className="rounded-xl border border-border/60 bg-muted/20 p-3">
+              <p className="mb-1 text-sm font-semibold">
+                {t("admin.detail.pickup")}
+              </p>
+              <DetailRow label={t("admin.updateStatus.establishment")}>
+                {record.pickupEstablishment ?? "—"}
+              </DetailRow>
+              <DetailRow label={t("admin.updateStatus.address")}>
+                {record.pickupAddress ?? "—"}
+              </DetailRow>
+            </section>
+
+            {loading && !detail ? (
+              <div className="space-y-2">
+                <Skeleton className="h-4 w-40" />
+                <Skeleton className="h-4 w-56" />
+              </div>
+            ) : null}
+
+            <Separator />
+
+            <section className="grid gap-3">
+              <p className="text-sm font-semibold">
+                {t("admin.updateStatus.title")}
+              </p>
+              <UpdateStatusForm
+                key={record.id}
+                item={record}
+                onCancel={() => onOpenChange(false)}
+                onUpdated={() => {
+                  void load();
+                  onUpdated();
+                }}
+              />
+            </section>
+          </div>
+        ) : null}
+      </SheetContent>
+    </Sheet>
+  );
+}
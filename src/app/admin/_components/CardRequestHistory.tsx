@@ -0,0 +1,194 @@
+"use client";
+
+import * as React from "react";
+import { ArrowPathIcon, ClockIcon } from "@heroicons/react/24/solid";
+
+import { StatusBadge } from "@/app/admin/_components/StatusBadge";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useI18n } from "@/i18n/I18nProvider";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import {
+  adminGetCardRequestHistory,
+  type CardRequestHistoryEntry,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { cn } from "@/lib/utils";
+
+type HistoryChange = {
+  entry: CardRequestHistoryEntry;
+  statusChanged: boolean;
+  establishmentChanged: boolean;
+  addressChanged: boolean;
+};
+
+// Entries are snapshots; compare each one with the previous to know what
+// actually changed. Newest first for display.
+function toChanges(entries: CardRequestHistoryEntry[]): HistoryChange[] {
+  const sorted = [...entries].sort((a, b) =>
+    a.changedAt.localeCompare(b.changedAt)
+  );
+  return sorted
+    .map((entry, i) => {
+      const prev = sorted[i - 1];
+      return {
+        entry,
+        statusChanged: !prev || prev.status !== entry.status,
+        establishmentChanged:
+          (prev?.pickupEstablishment ?? null) !== entry.pickupEstablishment,
+        addressChanged: (prev?.pickupAddress ?? null) !== entry.pickupAddress,
+      };
+    })
+    .reverse();
+}
+
+/**
+ * Audit trail of a card request. `version` (the record's `updatedAt`) triggers
+ * a reload after the record was updated elsewhere in the sheet.
+ */
+export function CardRequestHistory({
+  id,
+  version,
+}: {
+  id: number;
+  version: string;
+}) {
+  const { t, locale } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const intlLocale = getIntlLocale(locale);
+
+  const [entries, setEntries] = React.useState<
+    CardRequestHistoryEntry[] | null
+  >(null);
+  const [loading, setLoading] = React.useState(false);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
+
+  const load = React.useCallback(async () => {
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    try {
+      const res = await adminGetCardRequestHistory(id, {
+        accessToken,
+        onAccessTokenRefreshed: setAccessToken,
+        signal: controller.signal,
+      });
+      setEntries(res.items);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      if (abortRef.current === controller) setLoading(false);
+    }
+  }, [authStatus, getAccessToken, setAccessToken, id, toast]);
+
+  React.useEffect(() => {
+    void load();
+    return () => abortRef.current?.abort();
+  }, [load, version]);
+
+  const changes = React.useMemo(
+    () => (entries ? toChanges(entries) : []),
+    [entries]
+  );
+
+  if (!entries) {
+    return (
+      <div className="space-y-3">
+        <Skeleton className="h-14 w-full rounded-xl" />
+        <Skeleton className="h-14 w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid gap-3">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-semibold">{t("admin.history.title")}</p>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="rounded-lg"
+          onClick={() => void load()}
+          disabled={loading}
+        >
+          <ArrowPathIcon className={cn("size-4", loading && "animate-spin")} />
+          {t("admin.history.refresh")}
+        </Button>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="rounded-xl border border-dashed border-border/60 p-4 text-center text-sm text-muted-foreground">
+          {t("admin.history.empty")}
+        </p>
+      ) : (
+        <ol className="grid gap-2">
+          {changes.map(
+            ({
+              entry,
+              statusChanged,
+              establishmentChanged,
+              addressChanged,
+            }) => (
+              <li
+                key={entry.id}
+                className="grid gap-2 rounded-xl border border-border/60 bg-muted/20 p-3 text-sm"
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                    <ClockIcon className="size-3.5" />
+                    {formatDateTime(entry.changedAt, intlLocale)}
+                  </span>
+                  <span className="text-xs font-medium">
+                    {entry.changedBy ?? t("admin.history.system")}
+                  </span>
+                </div>
+                {statusChanged ? (
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground">
+                      {t("admin.history.status")}
+                    </span>
+                    <StatusBadge status={entry.status} />
+                  </div>
+                ) : null}
+                {establishmentChanged ? (
+                  <div>
+                    <span className="text-muted-foreground">
+                      {t("admin.updateStatus.establishment")}:{" "}
+                    </span>
+                    {entry.pickupEstablishment ?? "—"}
+                  </div>
+                ) : null}
+                {addressChanged ? (
+                  <div>
+                    <span className="text-muted-foreground">
+                      {t("admin.updateStatus.address")}:{" "}
+                    </span>
+                    {entry.pickupAddress ?? "—"}
+                  </div>
+                ) : null}
+                {entry.reason ? (
+                  <div className="text-xs text-muted-foreground">
+                    {t("admin.history.reason")}: {entry.reason}
+                  </div>
+                ) : null}
+              </li>
+            )
+          )}
+        </ol>
+      )}
+    </div>
+  );
+}
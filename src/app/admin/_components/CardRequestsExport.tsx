@@ -0,0 +1,169 @@
+"use client";
+
+import * as React from "react";
+import {
+  ArrowDownTrayIcon,
+  ArrowPathIcon,
+  XMarkIcon,
+} from "@heroicons/react/24/solid";
+
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useI18n } from "@/i18n/I18nProvider";
+import { getStatusLabel } from "@/i18n/labels";
+import {
+  EXPORT_COLUMNS,
+  downloadBlob,
+  fetchCardRequestsForExport,
+  rowsToCsvBlob,
+  rowsToXlsxBlob,
+  toExportRows,
+  type ExportColumn,
+  type ExportFormat,
+} from "@/lib/admin/card-requests-export";
+import { type AdminCardRequestsListQuery } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+
+export function CardRequestsExport({
+  query,
+  disabled,
+}: {
+  query: AdminCardRequestsListQuery;
+  disabled?: boolean;
+}) {
+  const { t, locale } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const isRtl = locale === "ar";
+
+  const [progress, setProgress] = React.useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  React.useEffect(() => () => abortRef.current?.abort(), []);
+
+  async function runExport(format: ExportFormat) {
+    if (!auth.accessToken) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ loaded: 0, total: 0 });
+
+    try {
+      const items = await fetchCardRequestsForExport(query, {
+        accessToken: auth.accessToken,
+        onAccessTokenRefreshed: auth.setAccessToken,
+        signal: controller.signal,
+        onProgress: (loaded, total) => setProgress({ loaded, total }),
+      });
+
+      const headers = Object.fromEntries(
+        EXPORT_COLUMNS.map((c) => [c, t(`admin.export.columns.${c}`)])
+      ) as Record<ExportColumn, string>;
+      const rows = toExportRows(items, headers, (column, item) => {
+        if (column === "status") return getStatusLabel(t, item.status);
+        return item[column];
+      });
+
+      const stamp = new Date().toISOString().slice(0, 10);
+      if (format === "csv") {
+        downloadBlob(rowsToCsvBlob(rows), `card-requests-${stamp}.csv`);
+      } else {
+        downloadBlob(await rowsToXlsxBlob(rows), `card-requests-${stamp}.xlsx`);
+      }
+      toast.success(
+        t("toast.success"),
+        t("admin.export.successToast", { count: items.length })
+      );
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  }
+
+  function cancelExport() {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setProgress(null);
+  }
+
+  if (progress) {
+    const percent = progress.total
+      ? Math.round((progress.loaded / progress.total) * 100)
+      : 0;
+    return (
+      <div className="flex items-center gap-2">
+        <ArrowPathIcon className="size-4 animate-spin text-muted-foreground" />
+        <div className="grid w-40 gap-1">
+          <span className="text-xs text-muted-foreground">
+            {t("admin.export.progress", {
+              loaded: progress.loaded,
+              total: progress.total,
+            })}
+          </span>
+          <div
+            className="h-1.5 overflow-hidden rounded-full bg-muted"
+            role="progressbar"
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-valuenow={percent}
+          >
+            <div
+              className="h-full bg-primary transition-[width]"
+              style={{ width: `${percent}%` }}
+            />
+          </div>
+        </div>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="rounded-lg"
+          onClick={cancelExport}
+        >
+          <XMarkIcon className="size-4" />
+          {t("common.cancel")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-xl"
+          disabled={disabled}
+        >
+          <ArrowDownTrayIcon className="size-4" />
+          {t("admin.export.action")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={isRtl ? "start" : "end"}>
+        <DropdownMenuItem onSelect={() => void runExport("csv")}>
+          {t("admin.export.csv")}
+        </DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => void runExport("xlsx")}>
+          {t("admin.export.xlsx")}
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
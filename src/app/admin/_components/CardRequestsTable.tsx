@@ -1,18 +1,33 @@
 "use client";
 
 import * as React from "react";
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
 import {
   AdjustmentsHorizontalIcon,
   ArrowPathIcon,
   ChevronDownIcon,
   ChevronUpIcon,
+  LinkIcon,
   MagnifyingGlassIcon,
+  QueueListIcon,
+  ViewColumnsIcon,
+  XMarkIcon,
 } from "@heroicons/react/24/solid";
 
+import { BulkUpdateDialog } from "@/app/admin/_components/BulkUpdateDialog";
+import { CardRequestsExport } from "@/app/admin/_components/CardRequestsExport";
+import { CardRequestDetailSheet } from "@/app/admin/_components/CardRequestDetailSheet";
+import { StatusBadge } from "@/app/admin/_components/StatusBadge";
 import { UpdateStatusDialog } from "@/app/admin/_components/UpdateStatusDialog";
+import { GouvernoratCombobox } from "@/components/GouvernoratCombobox";
 import { useAppToast } from "@/components/toast/toast";
-import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import {
@@ -33,52 +48,117 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { useI18n } from "@/i18n/I18nProvider";
-import { getIntlLocale } from "@/i18n/i18n";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import { collectCardRequestIds } from "@/lib/admin/card-requests-bulk";
+import {
+  DEFAULT_CARD_REQUESTS_QUERY,
+  GENRE_VALUES,
+  PAGE_SIZE_OPTIONS,
+  parseCardRequestsQuery,
+  serializeCardRequestsQuery,
+  type ResolvedCardRequestsQuery,
+} from "@/lib/admin/card-requests-query";
 import {
-  ApiClientError,
   adminListCardRequests,
   type AdminCardRequestItem,
-  type AdminCardRequestsListQuery,
-  type CardRequestStatus,
 } from "@/lib/api/client";
 import { useAuth } from "@/lib/auth/auth-context";
+import { usePermissions } from "@/lib/auth/permissions";
 import { cn } from "@/lib/utils";
 
-function formatDateTime(iso: string, intlLocale: string): string {
-  const d = new Date(iso);
-  if (Number.isNaN(d.getTime())) return iso;
-  return new Intl.DateTimeFormat(intlLocale, {
-    dateStyle: "medium",
-    timeStyle: "short",
-  }).format(d);
+type Filters = {
+  cin: string;
+  nom: string;
+  prenom: string;
+  gouvernorat: string;
+  status: string;
+  institut: string;
+  diplome: string;
+  genre: string;
+  dateFrom: string;
+  dateTo: string;
+};
+
+function filtersFromQuery(query: ResolvedCardRequestsQuery): Filters {
+  return {
+    cin: query.cin ?? "",
+    nom: query.nom ?? "",
+    prenom: query.prenom ?? "",
+    gouvernorat: query.gouvernorat ?? "",
+    status: query.status ?? "ALL",
+    institut: query.institut ?? "",
+    diplome: query.diplome ?? "",
+    genre: query.genre ?? "ALL",
+    dateFrom: query.dateFrom ?? "",
+    dateTo: query.dateTo ?? "",
+  };
+}
+
+const emptyFilters = filtersFromQuery(DEFAULT_CARD_REQUESTS_QUERY);
+
+function applyFilters(
+  query: ResolvedCardRequestsQuery,
+  filters: Filters
+): ResolvedCardRequestsQuery {
+  return {
+    page: query.page,
+    pageSize: query.pageSize,
+    sortBy: query.sortBy,
+    sortDir: query.sortDir,
+    cin: filters.cin || undefined,
+    nom: filters.nom || undefined,
+    prenom: filters.prenom || undefined,
+    gouvernorat: filters.gouvernorat || undefined,
+    status: filters.status === "ALL" ? undefined : filters.status,
+    institut: filters.institut || undefined,
+    diplome: filters.diplome || undefined,
+    genre: filters.genre === "ALL" ? undefined : filters.genre,
+    dateFrom: filters.dateFrom || undefined,
+    dateTo: filters.dateTo || undefined,
+  };
+}
+
+function sameFilters(a: Filters, b: Filters): boolean {
+  return (Object.keys(a) as Array<keyof Filters>).every((k) => a[k] === b[k]);
+}
+
+function isGenre(value: string): value is (typeof GENRE_VALUES)[number] {
+  return (GENRE_VALUES as readonly string[]).includes(value);
 }
 
-function StatusBadge({ status }: { status: string }) {
-  const { t } = useI18n();
-  const key = status as CardRequestStatus;
-  const isKnown = [
-    "CREATED",
-    "IN_PROGRESS",
-    "READY",
-    "DELIVERED",
-    "CANCELLED",
-  ].includes(status);
-  const label = isKnown ? t(`status.${key}`) : status;
-
-  const variant =
-    status === "CANCELLED"
-      ? "destructive"
-      : status === "READY" || status === "DELIVERED"
-      ? "default"
-      : "secondary";
+const optionalColumns = ["genre", "institut", "diplome"] as const;
+type OptionalColumn = (typeof optionalColumns)[number];
+
+// selection, id, full name, cin, gouvernorat, status, updatedAt, actions
+const baseColumnCount = 8;
+
+function SelectCheckbox({
+  checked,
+  indeterminate = false,
+  onCheckedChange,
+  label,
+}: {
+  checked: boolean;
+  indeterminate?: boolean;
+  onCheckedChange: (checked: boolean) => void;
+  label: string;
+}) {
+  const ref = React.useRef<HTMLInputElement>(null);
+
+  React.useEffect(() => {
+    if (ref.current) ref.current.indeterminate = indeterminate;
+  }, [indeterminate]);
 
   return (
-    <Badge
-      variant={variant as "default" | "secondary" | "destructive"}
-      className="rounded-lg"
-    >
-      {label}
-    </Badge>
+    <input
+      ref={ref}
+      type="checkbox"
+      className="size-4 cursor-pointer accent-primary align-middle"
+      checked={checked}
+      aria-label={label}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) => onCheckedChange(e.target.checked)}
+    />
   );
 }
 
@@ -86,6 +166,8 @@ export function CardRequestsTable() {
   const { t, locale } = useI18n();
   const toast = useAppToast();
   const auth = useAuth();
+  const permissions = usePermissions();
+  const canBulkUpdate = permissions.can("cardRequests.bulkUpdate");
 
   const isRtl = locale === "ar";
 
@@ -96,67 +178,96 @@ export function CardRequestsTable() {
     null
   );
   const [updateOpen, setUpdateOpen] = React.useState(false);
-
-  const [page, setPage] = React.useState(1);
-  const [pageSize, setPageSize] = React.useState(20);
-  const [sortBy, setSortBy] =
-    React.useState<NonNullable<AdminCardRequestsListQuery["sortBy"]>>(
-      "createdAt"
-    );
-  const [sortDir, setSortDir] =
-    React.useState<NonNullable<AdminCardRequestsListQuery["sortDir"]>>("desc");
+  const [detailOpen, setDetailOpen] = React.useState(false);
+  const [checkedIds, setCheckedIds] = React.useState<Set<number>>(
+    () => new Set()
+  );
+  const [selectAllProgress, setSelectAllProgress] = React.useState<{
+    loaded: number;
+    total: number;
+  } | null>(null);
+  const selectAllAbortRef = React.useRef<AbortController | null>(null);
+  const [bulkOpen, setBulkOpen] = React.useState(false);
+
+  // The URL is the source of truth for the list query: reloads, shared links
+  // and back/forward all restore the same view.
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const query = React.useMemo(
+    () => parseCardRequestsQuery(searchParams),
+    [searchParams]
+  );
+  const canonicalSearch = React.useMemo(
+    () => serializeCardRequestsQuery(query).toString(),
+    [query]
+  );
+  const { page, pageSize, sortBy, sortDir } = query;
+  const urlFilters = React.useMemo(() => filtersFromQuery(query), [query]);
 
   const [filtersOpen, setFiltersOpen] = React.useState(true);
-  const [cin, setCin] = React.useState("");
-  const [nom, setNom] = React.useState("");
-  const [prenom, setPrenom] = React.useState("");
-  const [status, setStatus] = React.useState<string>("ALL");
-  const [gouvernorat, setGouvernorat] = React.useState("");
-
-  const [debounced, setDebounced] = React.useState({
-    cin: "",
-    nom: "",
-    prenom: "",
-    gouvernorat: "",
-    status: "ALL",
-  });
+  // Draft values of the filter inputs, committed to the URL after a debounce.
+  const [filters, setFilters] = React.useState<Filters>(urlFilters);
+  const lastPushedSearchRef = React.useRef<string | null>(null);
+  const [visibleColumns, setVisibleColumns] = React.useState<
+    Record<OptionalColumn, boolean>
+  >({ genre: false, institut: false, diplome: false });
   const abortRef = React.useRef<AbortController | null>(null);
 
   const pages = Math.max(1, Math.ceil(total / pageSize));
+  const columnCount =
+    baseColumnCount -
+    (canBulkUpdate ? 0 : 1) +
+    optionalColumns.filter((c) => visibleColumns[c]).length;
+
+  const navigate = React.useCallback(
+    (next: ResolvedCardRequestsQuery) => {
+      const search = serializeCardRequestsQuery(next).toString();
+      if (search === canonicalSearch) return;
+      lastPushedSearchRef.current = search;
+      router.push(search ? `${pathname}?${search}` : pathname, {
+        scroll: false,
+      });
+    },
+    [canonicalSearch, pathname, router]
+  );
+
+  // Drop invalid or non-canonical params without adding a history entry.
+  React.useEffect(() => {
+    if (searchParams.toString() === canonicalSearch) return;
+    router.replace(
+      canonicalSearch ? `${pathname}?${canonicalSearch}` : pathname,
+      { scroll: false }
+    );
+  }, [searchParams, canonicalSearch, pathname, router]);
+
+  // The URL changed without us pushing it (back/forward, pasted link):
+  // bring the filter inputs in line with it.
+  React.useEffect(() => {
+    if (canonicalSearch === lastPushedSearchRef.current) {
+      lastPushedSearchRef.current = null;
+      return;
+    }
+    setFilters((prev) => (sameFilters(prev, urlFilters) ? prev : urlFilters));
+  }, [canonicalSearch, urlFilters]);
 
   React.useEffect(() => {
     const id = window.setTimeout(() => {
-      setDebounced((prev) => {
-        const next = { cin, nom, prenom, gouvernorat, status };
-        const same =
-          prev.cin === next.cin &&
-          prev.nom === next.nom &&
-          prev.prenom === next.prenom &&
-          prev.gouvernorat === next.gouvernorat &&
-          prev.status === next.status;
-        return same ? prev : next;
-      });
+      if (sameFilters(filters, urlFilters)) return;
+      navigate({ ...applyFilters(query, filters), page: 1 });
     }, 300);
     return () => window.clearTimeout(id);
-  }, [cin, nom, prenom, gouvernorat, status]);
-
-  const query = React.useMemo<AdminCardRequestsListQuery>(
-    () => ({
-      page,
-      pageSize,
-      sortBy,
-      sortDir,
-      cin: debounced.cin || undefined,
-      nom: debounced.nom || undefined,
-      prenom: debounced.prenom || undefined,
-      gouvernorat: debounced.gouvernorat || undefined,
-      status: debounced.status === "ALL" ? undefined : debounced.status,
-    }),
-    [page, pageSize, sortBy, sortDir, debounced]
-  );
+  }, [filters, urlFilters, query, navigate]);
+
+  function setFilter<K extends keyof Filters>(key: K, value: Filters[K]) {
+    setFilters((prev) => ({ ...prev, [key]: value }));
+  }
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
 
   const refresh = React.useCallback(async () => {
-    if (!auth.accessToken) return;
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
 
     abortRef.current?.abort();
     const controller = new AbortController();
@@ -165,8 +276,8 @@ export function CardRequestsTable() {
     setLoading(true);
     try {
       const res = await adminListCardRequests(query, {
-        accessToken: auth.accessToken,
-        onAccessTokenRefreshed: auth.setAccessToken,
+        accessToken,
+        onAccessTokenRefreshed: setAccessToken,
         signal: controller.signal,
       });
       setItems(res.items);
@@ -174,29 +285,108 @@ export function CardRequestsTable() {
     } catch (e) {
       if (controller.signal.aborted) return;
       if ((e as Error)?.name === "AbortError") return;
-      if (e instanceof ApiClientError && e.status === 401) {
-        toast.error(t("toast.error"), t("toast.sessionExpired"));
-        await auth.logout();
-        return;
-      }
       toast.apiError(e);
     } finally {
       setLoading(false);
     }
-  }, [auth, query, toast, t]);
+  }, [authStatus, getAccessToken, setAccessToken, query, toast]);
 
   React.useEffect(() => {
     void refresh();
     return () => abortRef.current?.abort();
   }, [refresh]);
 
+  // A selection belongs to one set of filters and sort order: changing them
+  // drops it, so a bulk update never reaches rows the agent no longer sees.
+  // Moving between pages keeps it.
+  const selectionScope = React.useMemo(
+    () => serializeCardRequestsQuery({ ...query, page: 1 }).toString(),
+    [query]
+  );
+  React.useEffect(() => {
+    selectAllAbortRef.current?.abort();
+    selectAllAbortRef.current = null;
+    setSelectAllProgress(null);
+    setCheckedIds(new Set());
+  }, [selectionScope]);
+
+  React.useEffect(() => () => selectAllAbortRef.current?.abort(), []);
+
+  const pageCheckedCount = items.filter((r) => checkedIds.has(r.id)).length;
+  const allPageChecked = items.length > 0 && pageCheckedCount === items.length;
+  const hiddenCheckedCount = checkedIds.size - pageCheckedCount;
+
+  function toggleChecked(id: number, checked: boolean) {
+    setCheckedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }
+
+  function togglePageChecked(checked: boolean) {
+    setCheckedIds((prev) => {
+      const next = new Set(prev);
+      for (const r of items) {
+        if (checked) next.add(r.id);
+        else next.delete(r.id);
+      }
+      return next;
+    });
+  }
+
+  async function selectAllMatching() {
+    const accessToken = getAccessToken();
+    if (!accessToken) return;
+
+    const controller = new AbortController();
+    selectAllAbortRef.current = controller;
+    setSelectAllProgress({ loaded: 0, total });
+
+    try {
+      const ids = await collectCardRequestIds(query, {
+        accessToken,
+        onAccessTokenRefreshed: setAccessToken,
+        getAccessToken,
+        signal: controller.signal,
+        onProgress: (loaded, total) => setSelectAllProgress({ loaded, total }),
+      });
+      if (!controller.signal.aborted) setCheckedIds(new Set(ids));
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      if (selectAllAbortRef.current === controller) {
+        selectAllAbortRef.current = null;
+        setSelectAllProgress(null);
+      }
+    }
+  }
+
+  function cancelSelectAll() {
+    selectAllAbortRef.current?.abort();
+    selectAllAbortRef.current = null;
+    setSelectAllProgress(null);
+  }
+
   function resetFilters() {
-    setCin("");
-    setNom("");
-    setPrenom("");
-    setGouvernorat("");
-    setStatus("ALL");
-    setPage(1);
+    setFilters(emptyFilters);
+    navigate(applyFilters({ ...query, page: 1 }, emptyFilters));
+  }
+
+  async function copyViewLink() {
+    const search = serializeCardRequestsQuery(query).toString();
+    const url = `${window.location.origin}${pathname}${
+      search ? `?${search}` : ""
+    }`;
+    try {
+      await navigator.clipboard.writeText(url);
+      toast.success(t("toast.success"), t("admin.dashboard.linkCopied"));
+    } catch {
+      toast.error(t("toast.error"), t("admin.dashboard.linkCopyFailed"));
+    }
   }
 
   return (
@@ -231,9 +421,9 @@ export function CardRequestsTable() {
               </Label>
               <Select
                 value={sortBy}
-                onValueChange={(v) => (
-                  setPage(1), setSortBy(v as typeof sortBy)
-                )}
+                onValueChange={(v) =>
+                  navigate({ ...query, page: 1, sortBy: v as typeof sortBy })
+                }
               >
                 <SelectTrigger className="w-[190px] rounded-xl">
                   <SelectValue />
@@ -262,9 +452,13 @@ export function CardRequestsTable() {
               type="button"
               variant="outline"
               className="rounded-xl"
-              onClick={() => (
-                setPage(1), setSortDir((d) => (d === "asc" ? "desc" : "asc"))
-              )}
+              onClick={() =>
+                navigate({
+                  ...query,
+                  page: 1,
+                  sortDir: sortDir === "asc" ? "desc" : "asc",
+                })
+              }
               aria-label={t("admin.dashboard.sortDirAria")}
             >
               {sortDir === "asc" ? (
@@ -280,20 +474,63 @@ export function CardRequestsTable() {
               </Label>
               <Select
                 value={String(pageSize)}
-                onValueChange={(v) => (setPage(1), setPageSize(Number(v)))}
+                onValueChange={(v) =>
+                  navigate({ ...query, page: 1, pageSize: Number(v) })
+                }
               >
                 <SelectTrigger className="w-[90px] rounded-xl">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="10">10</SelectItem>
-                  <SelectItem value="20">20</SelectItem>
-                  <SelectItem value="50">50</SelectItem>
-                  <SelectItem value="100">100</SelectItem>
+                  {PAGE_SIZE_OPTIONS.map((n) => (
+                    <SelectItem key={n} value={String(n)}>
+                      {n}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
 
+            <Button
+              type="button"
+              variant="outline"
+              className="rounded-xl"
+              onClick={() => void copyViewLink()}
+            >
+              <LinkIcon className="size-4" />
+              {t("admin.dashboard.copyLink")}
+            </Button>
+
+            {permissions.can("cardRequests.export") ? (
+              <CardRequestsExport query={query} disabled={total === 0} />
+            ) : null}
+
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button type="button" variant="outline" className="rounded-xl">
+                  <ViewColumnsIcon className="size-4" />
+                  {t("admin.dashboard.columnsToggle")}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align={isRtl ? "start" : "end"}>
+                {optionalColumns.map((c) => (
+                  <DropdownMenuCheckboxItem
+                    key={c}
+                    checked={visibleColumns[c]}
+                    onCheckedChange={(checked) =>
+                      setVisibleColumns((prev) => ({
+                        ...prev,
+                        [c]: checked === true,
+                      }))
+                    }
+                    onSelect={(e) => e.preventDefault()}
+                  >
+                    {t(`admin.dashboard.columns.${c}`)}
+                  </DropdownMenuCheckboxItem>
+                ))}
+              </DropdownMenuContent>
+            </DropdownMenu>
+
             <Button
               type="button"
               variant="secondary"
@@ -315,8 +552,8 @@ export function CardRequestsTable() {
                 <Input
                   inputMode="numeric"
                   placeholder="CIN"
-                  value={cin}
-                  onChange={(e) => (setPage(1), setCin(e.target.value))}
+                  value={filters.cin}
+                  onChange={(e) => setFilter("cin", e.target.value)}
                 />
               </div>
 
@@ -324,8 +561,8 @@ export function CardRequestsTable() {
                 <Label>{t("admin.dashboard.field.nom")}</Label>
                 <Input
                   placeholder={t("admin.dashboard.field.nom")}
-                  value={nom}
-                  onChange={(e) => (setPage(1), setNom(e.target.value))}
+                  value={filters.nom}
+                  onChange={(e) => setFilter("nom", e.target.value)}
                 />
               </div>
 
@@ -333,27 +570,28 @@ export function CardRequestsTable() {
                 <Label>{t("admin.dashboard.field.prenom")}</Label>
                 <Input
                   placeholder={t("admin.dashboard.field.prenom")}
-                  value={prenom}
-                  onChange={(e) => (setPage(1), setPrenom(e.target.value))}
+                  value={filters.prenom}
+                  onChange={(e) => setFilter("prenom", e.target.value)}
                 />
               </div>
 
               <div className="grid gap-2">
                 <Label>{t("admin.dashboard.field.gouvernorat")}</Label>
-                <Input
+                <GouvernoratCombobox
+                  clearable
                   placeholder={t(
                     "admin.dashboard.field.gouvernoratPlaceholder"
                   )}
-                  value={gouvernorat}
-                  onChange={(e) => (setPage(1), setGouvernorat(e.target.value))}
+                  value={filters.gouvernorat}
+                  onChange={(v) => setFilter("gouvernorat", v)}
                 />
               </div>
 
               <div className="grid gap-2">
                 <Label>{t("admin.dashboard.field.status")}</Label>
                 <Select
-                  value={status}
-                  onValueChange={(v) => (setPage(1), setStatus(v))}
+                  value={filters.status}
+                  onValueChange={(v) => setFilter("status", v)}
                 >
                   <SelectTrigger className="w-full rounded-xl">
                     <SelectValue />
@@ -378,15 +616,147 @@ export function CardRequestsTable() {
                   </SelectContent>
                 </Select>
               </div>
+
+              <div className="grid gap-2">
+                <Label>{t("admin.dashboard.field.institut")}</Label>
+                <Input
+                  placeholder={t("admin.dashboard.field.institut")}
+                  value={filters.institut}
+                  onChange={(e) => setFilter("institut", e.target.value)}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>{t("admin.dashboard.field.diplome")}</Label>
+                <Input
+                  placeholder={t("admin.dashboard.field.diplome")}
+                  value={filters.diplome}
+                  onChange={(e) => setFilter("diplome", e.target.value)}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>{t("admin.dashboard.field.genre")}</Label>
+                <Select
+                  value={filters.genre}
+                  onValueChange={(v) => setFilter("genre", v)}
+                >
+                  <SelectTrigger className="w-full rounded-xl">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="ALL">
+                      {t("admin.dashboard.genreAll")}
+                    </SelectItem>
+                    {GENRE_VALUES.map((g) => (
+                      <SelectItem key={g} value={g}>
+                        {t(`admin.dashboard.genre.${g}`)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="grid gap-2">
+                <Label>{t("admin.dashboard.field.dateFrom")}</Label>
+                <Input
+                  type="date"
+                  value={filters.dateFrom}
+                  max={filters.dateTo || undefined}
+                  onChange={(e) => setFilter("dateFrom", e.target.value)}
+                />
+              </div>
+
+              <div className="grid gap-2">
+                <Label>{t("admin.dashboard.field.dateTo")}</Label>
+                <Input
+                  type="date"
+                  value={filters.dateTo}
+                  min={filters.dateFrom || undefined}
+                  onChange={(e) => setFilter("dateTo", e.target.value)}
+                />
+              </div>
             </div>
           </>
         ) : null}
       </div>
 
+      {canBulkUpdate && (checkedIds.size > 0 || total > 0) ? (
+        <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/60 bg-background/60 px-4 py-2">
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-muted-foreground">
+              {t("admin.bulk.selectedCount", { count: checkedIds.size })}
+              {hiddenCheckedCount > 0
+                ? ` (${t("admin.bulk.hiddenCount", { count: hiddenCheckedCount })})`
+                : null}
+            </span>
+            {selectAllProgress ? (
+              <>
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <ArrowPathIcon className="size-4 animate-spin" />
+                  {t("admin.bulk.selecting", selectAllProgress)}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="rounded-lg"
+                  onClick={cancelSelectAll}
+                >
+                  <XMarkIcon className="size-4" />
+                  {t("common.cancel")}
+                </Button>
+              </>
+            ) : total > checkedIds.size ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="rounded-lg"
+                onClick={() => void selectAllMatching()}
+              >
+                {t("admin.bulk.selectAllMatching", { total })}
+              </Button>
+            ) : null}
+            {checkedIds.size > 0 ? (
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="rounded-lg"
+                onClick={() => setCheckedIds(new Set())}
+              >
+                {t("admin.bulk.clearSelection")}
+              </Button>
+            ) : null}
+          </div>
+          <Button
+            type="button"
+            variant="secondary"
+            className="rounded-xl"
+            onClick={() => setBulkOpen(true)}
+            disabled={checkedIds.size === 0}
+          >
+            <QueueListIcon className="size-4" />
+            {t("admin.bulk.action")}
+          </Button>
+        </div>
+      ) : null}
+
       <div className="overflow-hidden rounded-xl border border-border/60 bg-background/60">
         <Table>
           <TableHeader>
             <TableRow>
+              {canBulkUpdate ? (
+                <TableHead className="w-[40px]">
+                  <SelectCheckbox
+                    checked={allPageChecked}
+                    indeterminate={pageCheckedCount > 0 && !allPageChecked}
+                    onCheckedChange={togglePageChecked}
+                    label={t("admin.bulk.selectPage")}
+                  />
+                </TableHead>
+              ) : null}
               <TableHead className="w-[90px]">
                 {t("admin.dashboard.columns.id")}
               </TableHead>
@@ -397,6 +767,13 @@ export function CardRequestsTable() {
               <TableHead className="w-[160px]">
                 {t("admin.dashboard.columns.gouvernorat")}
               </TableHead>
+              {optionalColumns.map((c) =>
+                visibleColumns[c] ? (
+                  <TableHead key={c}>
+                    {t(`admin.dashboard.columns.${c}`)}
+                  </TableHead>
+                ) : null
+              )}
               <TableHead className="w-[150px]">
                 {t("admin.dashboard.columns.status")}
               </TableHead>
@@ -415,7 +792,7 @@ export function CardRequestsTable() {
             {loading ? (
               Array.from({ length: Math.min(pageSize, 8) }).map((_, i) => (
                 <TableRow key={i}>
-                  <TableCell colSpan={7}>
+                  <TableCell colSpan={columnCount}>
                     <div className="flex items-center gap-3">
                       <Skeleton className="h-4 w-12" />
                       <Skeleton className="h-4 w-44" />
@@ -430,7 +807,7 @@ export function CardRequestsTable() {
             ) : items.length === 0 ? (
               <TableRow>
                 <TableCell
-                  colSpan={7}
+                  colSpan={columnCount}
                   className="py-10 text-center text-sm text-muted-foreground"
                 >
                   {t("admin.dashboard.empty")}
@@ -441,16 +818,44 @@ export function CardRequestsTable() {
                 <TableRow
                   key={r.id}
                   className={cn(
-                    "hover:bg-accent/30",
+                    "cursor-pointer hover:bg-accent/30",
                     r.status === "CANCELLED" && "opacity-80"
                   )}
+                  onClick={() => {
+                    setSelected(r);
+                    setDetailOpen(true);
+                  }}
                 >
+                  {canBulkUpdate ? (
+                    <TableCell>
+                      <SelectCheckbox
+                        checked={checkedIds.has(r.id)}
+                        onCheckedChange={(checked) =>
+                          toggleChecked(r.id, checked)
+                        }
+                        label={t("admin.bulk.selectRow", { id: String(r.id) })}
+                      />
+                    </TableCell>
+                  ) : null}
                   <TableCell className="font-mono text-xs">{r.id}</TableCell>
                   <TableCell className="font-medium">
                     {r.nom} {r.prenom}
                   </TableCell>
                   <TableCell className="font-mono text-xs">{r.cin}</TableCell>
                   <TableCell>{r.gouvernorat}</TableCell>
+                  {visibleColumns.genre ? (
+                    <TableCell>
+                      {r.genre && isGenre(r.genre)
+                        ? t(`admin.dashboard.genre.${r.genre}`)
+                        : (r.genre ?? "—")}
+                    </TableCell>
+                  ) : null}
+                  {visibleColumns.institut ? (
+                    <TableCell>{r.institut ?? "—"}</TableCell>
+                  ) : null}
+                  {visibleColumns.diplome ? (
+                    <TableCell>{r.diplome ?? "—"}</TableCell>
+                  ) : null}
                   <TableCell>
                     <StatusBadge status={r.status} />
                   </TableCell>
@@ -462,7 +867,14 @@ export function CardRequestsTable() {
                       type="button"
                       variant="outline"
                       className="rounded-xl"
-                      onClick={() => {
+                      disabled={!permissions.canUpdate(r)}
+                      title={
+                        permissions.canUpdate(r)
+                          ? undefined
+                          : t("admin.permissions.readOnly")
+                      }
+                      onClick={(e) => {
+                        e.stopPropagation();
                         setSelected(r);
                         setUpdateOpen(true);
                       }}
@@ -486,7 +898,7 @@ export function CardRequestsTable() {
               "text-xs text-muted-foreground"
             )}
           >
-            ({total} {t("common.total")})
+            ({t("admin.dashboard.totalCount", { total })})
           </span>
         </p>
 
@@ -495,7 +907,7 @@ export function CardRequestsTable() {
             type="button"
             variant="outline"
             className="rounded-xl"
-            onClick={() => setPage((p) => Math.max(1, p - 1))}
+            onClick={() => navigate({ ...query, page: Math.max(1, page - 1) })}
             disabled={page <= 1 || loading}
           >
             {t("admin.dashboard.pagination.prev")}
@@ -504,7 +916,9 @@ export function CardRequestsTable() {
             type="button"
             variant="outline"
             className="rounded-xl"
-            onClick={() => setPage((p) => Math.min(pages, p + 1))}
+            onClick={() =>
+              navigate({ ...query, page: Math.min(pages, page + 1) })
+            }
             disabled={page >= pages || loading}
           >
             {t("admin.dashboard.pagination.next")}
@@ -521,6 +935,31 @@ export function CardRequestsTable() {
         item={selected}
         onUpdated={() => void refresh()}
       />
+
+      <BulkUpdateDialog
+        open={bulkOpen}
+        onOpenChange={setBulkOpen}
+        ids={Array.from(checkedIds)}
+        onCompleted={(succeededIds) => {
+          // Keep only the failed ids selected so they are easy to act on again.
+          setCheckedIds((prev) => {
+            const next = new Set(prev);
+            for (const id of succeededIds) next.delete(id);
+            return next;
+          });
+          void refresh();
+        }}
+      />
+
+      <CardRequestDetailSheet
+        open={detailOpen}
+        onOpenChange={(open) => {
+          setDetailOpen(open);
+          if (!open) setSelected(null);
+        }}
+        item={selected}
+        onUpdated={() => void refresh()}
+      />
     </div>
   );
 }
@@ -0,0 +1,145 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { ArrowPathIcon } from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import {
+  NewPasswordFields,
+  checkPasswordsMatch,
+  makePasswordShape,
+} from "@/app/admin/_components/AdminUserFields";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import { ApiClientError, adminChangePassword } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+
+function makeChangePasswordSchema(t: TFunction) {
+  return z
+    .object({
+      currentPassword: z
+        .string()
+        .min(1, t("admin.account.password.currentRequired")),
+      ...makePasswordShape(t),
+    })
+    .superRefine((v, ctx) => {
+      checkPasswordsMatch(t, v, ctx);
+      if (v.password && v.password === v.currentPassword) {
+        ctx.addIssue({
+          code: "custom",
+          message: t("admin.account.password.sameAsCurrent"),
+          path: ["password"],
+        });
+      }
+    });
+}
+
+type ChangePasswordValues = z.infer<
+  ReturnType<typeof makeChangePasswordSchema>
+>;
+
+const changePasswordDefaultValues: ChangePasswordValues = {
+  currentPassword: "",
+  password: "",
+  confirmPassword: "",
+};
+
+export function ChangePasswordForm({ onChanged }: { onChanged?: () => void }) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const schema = React.useMemo(() => makeChangePasswordSchema(t), [t]);
+  const form = useForm<ChangePasswordValues>({
+    resolver: zodResolver(schema),
+    defaultValues: changePasswordDefaultValues,
+    mode: "onBlur",
+  });
+  const [submitting, setSubmitting] = React.useState(false);
+
+  async function onSubmit(values: ChangePasswordValues) {
+    if (!auth.accessToken) return;
+    setSubmitting(true);
+    try {
+      await adminChangePassword(
+        {
+          currentPassword: values.currentPassword,
+          newPassword: values.password,
+        },
+        {
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        }
+      );
+      form.reset(changePasswordDefaultValues);
+      toast.success(
+        t("toast.success"),
+        t("admin.account.password.changedToast")
+      );
+      onChanged?.();
+    } catch (e) {
+      if (e instanceof ApiClientError && e.code === "INVALID_CREDENTIALS") {
+        form.setError("currentPassword", {
+          message: t("admin.account.password.wrongCurrent"),
+        });
+        return;
+      }
+      toast.apiError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        className="grid gap-4"
+        onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+      >
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem className="sm:max-w-[calc(50%-0.5rem)]">
+              <FormLabel>{t("admin.account.password.current")}</FormLabel>
+              <FormControl>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <NewPasswordFields
+          control={form.control}
+          passwordLabel={t("admin.account.password.new")}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" className="rounded-xl" disabled={submitting}>
+            {submitting ? (
+              <ArrowPathIcon className="size-4 animate-spin" />
+            ) : null}
+            {t("admin.account.password.submit")}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
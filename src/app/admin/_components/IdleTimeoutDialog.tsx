@@ -0,0 +1,77 @@
+"use client";
+
+import * as React from "react";
+import { ClockIcon } from "@heroicons/react/24/solid";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/i18n/I18nProvider";
+import { useAuth, useIdleTimeout } from "@/lib/auth/auth-context";
+
+function secondsUntil(deadline: number): number {
+  return Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+}
+
+// Mounted only while the dialog is open, so the countdown starts fresh.
+function IdleCountdown({ deadline }: { deadline: number }) {
+  const { t } = useI18n();
+  const [seconds, setSeconds] = React.useState(() => secondsUntil(deadline));
+
+  React.useEffect(() => {
+    const interval = window.setInterval(
+      () => setSeconds(secondsUntil(deadline)),
+      1000
+    );
+    return () => window.clearInterval(interval);
+  }, [deadline]);
+
+  return (
+    <DialogDescription aria-live="polite">
+      {t("admin.idle.description", { seconds })}
+    </DialogDescription>
+  );
+}
+
+export function IdleTimeoutDialog() {
+  const { t } = useI18n();
+  const auth = useAuth();
+  const { idleDeadline: deadline, staySignedIn } = useIdleTimeout();
+
+  return (
+    <Dialog
+      open={deadline !== null}
+      onOpenChange={(open) => {
+        if (!open) staySignedIn();
+      }}
+    >
+      <DialogContent className="sm:max-w-md" showCloseButton={false}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClockIcon className="size-4" />
+            {t("admin.idle.title")}
+          </DialogTitle>
+          {deadline !== null ? <IdleCountdown deadline={deadline} /> : null}
+        </DialogHeader>
+        <DialogFooter>
+          <Button
+            variant="outline"
+            className="rounded-xl"
+            onClick={() => void auth.logout()}
+          >
+            {t("nav.logout")}
+          </Button>
+          <Button className="rounded-xl" onClick={staySignedIn}>
+            {t("admin.idle.stay")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
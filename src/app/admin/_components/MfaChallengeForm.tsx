@@ -0,0 +1,181 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  ArrowLeftIcon,
+  ArrowPathIcon,
+  DevicePhoneMobileIcon,
+} from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import { ApiClientError } from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import {
+  MFA_CODE_LENGTH,
+  isMfaCode,
+  normalizeMfaCode,
+  normalizeRecoveryCode,
+} from "@/lib/auth/mfa";
+
+type Mode = "code" | "recovery";
+
+function makeChallengeSchema(t: TFunction, mode: Mode) {
+  return z.object({
+    value:
+      mode === "code"
+        ? z
+            .string()
+            .refine(isMfaCode, t("admin.login.mfa.validation.codeInvalid"))
+        : z
+            .string()
+            .trim()
+            .min(1, t("admin.login.mfa.validation.recoveryRequired")),
+  });
+}
+
+type ChallengeValues = z.infer<ReturnType<typeof makeChallengeSchema>>;
+
+/** Second login step, shown while `auth.status` is `mfa_required`. */
+export function MfaChallengeForm({ onVerified }: { onVerified: () => void }) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const [mode, setMode] = React.useState<Mode>("code");
+  const schema = React.useMemo(() => makeChallengeSchema(t, mode), [t, mode]);
+  const form = useForm<ChallengeValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { value: "" },
+  });
+  const [submitting, setSubmitting] = React.useState(false);
+
+  function switchMode() {
+    setMode((m) => (m === "code" ? "recovery" : "code"));
+    form.reset({ value: "" });
+  }
+
+  async function onSubmit(values: ChallengeValues) {
+    setSubmitting(true);
+    try {
+      await auth.verifyMfa(
+        mode === "code"
+          ? { code: normalizeMfaCode(values.value) }
+          : { recoveryCode: normalizeRecoveryCode(values.value) }
+      );
+      onVerified();
+    } catch (e) {
+      if (e instanceof ApiClientError && e.code === "INVALID_MFA_CODE") {
+        form.setError("value", {
+          message:
+            mode === "code"
+              ? t("admin.login.mfa.validation.codeRejected")
+              : t("admin.login.mfa.validation.recoveryRejected"),
+        });
+        return;
+      }
+      toast.apiError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        className="grid gap-4"
+        onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+      >
+        <div className="flex gap-3 rounded-xl border border-border/60 bg-background/60 p-3 text-sm">
+          <DevicePhoneMobileIcon className="mt-0.5 size-4 shrink-0 text-muted-foreground" />
+          <p>
+            {mode === "code"
+              ? t("admin.login.mfa.codeDesc")
+              : t("admin.login.mfa.recoveryDesc")}
+          </p>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="value"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>
+                {mode === "code"
+                  ? t("admin.login.mfa.code")
+                  : t("admin.login.mfa.recoveryCode")}
+              </FormLabel>
+              <FormControl>
+                {mode === "code" ? (
+                  <Input
+                    className="text-center font-mono text-lg tracking-[0.5em]"
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    maxLength={MFA_CODE_LENGTH + 1}
+                    autoFocus
+                    dir="ltr"
+                    {...field}
+                  />
+                ) : (
+                  <Input
+                    className="font-mono"
+                    autoComplete="off"
+                    autoFocus
+                    dir="ltr"
+                    {...field}
+                  />
+                )}
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <Button type="submit" className="mt-1 rounded-xl" disabled={submitting}>
+          {submitting ? (
+            <ArrowPathIcon className="size-4 animate-spin" />
+          ) : null}
+          {t("admin.login.mfa.submit")}
+        </Button>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="rounded-lg"
+            disabled={submitting}
+            onClick={auth.cancelMfa}
+          >
+            <ArrowLeftIcon className="size-4 rtl:rotate-180" />
+            {t("admin.login.mfa.back")}
+          </Button>
+          <Button
+            type="button"
+            variant="link"
+            size="sm"
+            disabled={submitting}
+            onClick={switchMode}
+          >
+            {mode === "code"
+              ? t("admin.login.mfa.useRecovery")
+              : t("admin.login.mfa.useCode")}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
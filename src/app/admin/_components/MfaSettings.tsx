@@ -0,0 +1,399 @@
+"use client";
+
+import * as React from "react";
+import Image from "next/image";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  ArrowPathIcon,
+  CheckBadgeIcon,
+  ClipboardDocumentIcon,
+  ShieldCheckIcon,
+} from "@heroicons/react/24/solid";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+
+import { useAppToast } from "@/components/toast/toast";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useI18n } from "@/i18n/I18nProvider";
+import {
+  ApiClientError,
+  adminConfirmMfaEnrollment,
+  adminDisableMfa,
+  adminGetMfaStatus,
+  adminStartMfaEnrollment,
+  type AdminMfaEnrollment,
+  type AdminMfaStatus,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { MFA_CODE_LENGTH, isMfaCode, normalizeMfaCode } from "@/lib/auth/mfa";
+
+type CodeValues = { code: string };
+
+/**
+ * A single TOTP code field. `onCode` returns false when the API refused the
+ * code, which is then reported on the field.
+ */
+function MfaCodeForm({
+  submitLabel,
+  destructive = false,
+  onCode,
+}: {
+  submitLabel: string;
+  destructive?: boolean;
+  onCode: (code: string) => Promise<boolean>;
+}) {
+  const { t } = useI18n();
+  const schema = React.useMemo(
+    () =>
+      z.object({
+        code: z
+          .string()
+          .refine(isMfaCode, t("admin.login.mfa.validation.codeInvalid")),
+      }),
+    [t]
+  );
+  const form = useForm<CodeValues>({
+    resolver: zodResolver(schema),
+    defaultValues: { code: "" },
+  });
+  const [submitting, setSubmitting] = React.useState(false);
+
+  async function onSubmit(values: CodeValues) {
+    setSubmitting(true);
+    try {
+      if (!(await onCode(normalizeMfaCode(values.code)))) {
+        form.setError("code", {
+          message: t("admin.login.mfa.validation.codeRejected"),
+        });
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Form {...form}>
+      <form
+        className="flex flex-wrap items-start gap-3"
+        onSubmit={(e) => void form.handleSubmit(onSubmit)(e)}
+      >
+        <FormField
+          control={form.control}
+          name="code"
+          render={({ field }) => (
+            <FormItem className="w-44">
+              <FormLabel className="sr-only">
+                {t("admin.login.mfa.code")}
+              </FormLabel>
+              <FormControl>
+                <Input
+                  className="text-center font-mono tracking-[0.3em]"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  maxLength={MFA_CODE_LENGTH + 1}
+                  placeholder="000000"
+                  dir="ltr"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <Button
+          type="submit"
+          variant={destructive ? "destructive" : "default"}
+          className="rounded-xl"
+          disabled={submitting}
+        >
+          {submitting ? (
+            <ArrowPathIcon className="size-4 animate-spin" />
+          ) : null}
+          {submitLabel}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function isRejectedCode(e: unknown): boolean {
+  return e instanceof ApiClientError && e.code === "INVALID_MFA_CODE";
+}
+
+/** Two-factor authentication of the signed-in admin: status and enrolment. */
+export function MfaSettings() {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const [status, setStatus] = React.useState<AdminMfaStatus | null>(null);
+  const [loading, setLoading] = React.useState(false);
+  const [starting, setStarting] = React.useState(false);
+  const [enrollment, setEnrollment] = React.useState<AdminMfaEnrollment | null>(
+    null
+  );
+  // Shown once, right after enrolment; the API never returns them again.
+  const [recoveryCodes, setRecoveryCodes] = React.useState<string[] | null>(
+    null
+  );
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
+
+  const refresh = React.useCallback(async () => {
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    try {
+      setStatus(
+        await adminGetMfaStatus({
+          accessToken,
+          onAccessTokenRefreshed: setAccessToken,
+          signal: controller.signal,
+        })
+      );
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      toast.apiError(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [authStatus, getAccessToken, setAccessToken, toast]);
+
+  React.useEffect(() => {
+    void refresh();
+    return () => abortRef.current?.abort();
+  }, [refresh]);
+
+  async function startEnrollment() {
+    if (!auth.accessToken) return;
+    setStarting(true);
+    try {
+      setEnrollment(
+        await adminStartMfaEnrollment({
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        })
+      );
+    } catch (e) {
+      toast.apiError(e);
+    } finally {
+      setStarting(false);
+    }
+  }
+
+  async function confirmEnrollment(code: string): Promise<boolean> {
+    if (!auth.accessToken) return true;
+    try {
+      const res = await adminConfirmMfaEnrollment(
+        { code },
+        {
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        }
+      );
+      setEnrollment(null);
+      setRecoveryCodes(res.recoveryCodes);
+      toast.success(t("toast.success"), t("admin.account.mfa.enabledToast"));
+      void refresh();
+      return true;
+    } catch (e) {
+      if (isRejectedCode(e)) return false;
+      toast.apiError(e);
+      return true;
+    }
+  }
+
+  async function disable(code: string): Promise<boolean> {
+    if (!auth.accessToken) return true;
+    try {
+      await adminDisableMfa(
+        { code },
+        {
+          accessToken: auth.accessToken,
+          onAccessTokenRefreshed: auth.setAccessToken,
+        }
+      );
+      toast.success(t("toast.success"), t("admin.account.mfa.disabledToast"));
+      void refresh();
+      return true;
+    } catch (e) {
+      if (isRejectedCode(e)) return false;
+      toast.apiError(e);
+      return true;
+    }
+  }
+
+  async function copy(text: string) {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success(t("toast.success"), t("admin.account.mfa.copied"));
+    } catch {
+      toast.error(t("toast.error"), t("admin.account.mfa.copyFailed"));
+    }
+  }
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-3 rounded-xl border border-amber-500/40 bg-amber-500/10 p-4">
+        <p className="text-sm font-medium">
+          {t("admin.account.mfa.recoveryTitle")}
+        </p>
+        <p className="text-sm text-muted-foreground">
+          {t("admin.account.mfa.recoveryDesc")}
+        </p>
+        <ul
+          className="grid grid-cols-2 gap-2 font-mono text-sm sm:grid-cols-4"
+          dir="ltr"
+        >
+          {recoveryCodes.map((code) => (
+            <li
+              key={code}
+              className="rounded-lg border border-border/60 bg-background/80 px-2 py-1 text-center"
+            >
+              {code}
+            </li>
+          ))}
+        </ul>
+        <div className="flex flex-wrap justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            className="rounded-xl"
+            onClick={() => void copy(recoveryCodes.join("\n"))}
+          >
+            <ClipboardDocumentIcon className="size-4" />
+            {t("admin.account.mfa.copyCodes")}
+          </Button>
+          <Button
+            type="button"
+            className="rounded-xl"
+            onClick={() => setRecoveryCodes(null)}
+          >
+            {t("admin.account.mfa.savedCodes")}
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!status) {
+    return loading ? <Skeleton className="h-20 w-full rounded-xl" /> : null;
+  }
+
+  if (status.enabled) {
+    return (
+      <div className="space-y-3 rounded-xl border border-border/60 bg-background/60 p-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <CheckBadgeIcon className="size-5 text-emerald-600" />
+          <Badge variant="secondary">{t("admin.account.mfa.enabled")}</Badge>
+          <span className="text-sm text-muted-foreground">
+            {t("admin.account.mfa.recoveryRemaining", {
+              count: status.recoveryCodesRemaining,
+            })}
+          </span>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {t("admin.account.mfa.disableDesc")}
+        </p>
+        <MfaCodeForm
+          submitLabel={t("admin.account.mfa.disable")}
+          destructive
+          onCode={disable}
+        />
+      </div>
+    );
+  }
+
+  if (enrollment) {
+    return (
+      <div className="space-y-4 rounded-xl border border-border/60 bg-background/60 p-4">
+        <div className="flex flex-wrap items-start gap-4">
+          <Image
+            src={enrollment.qrCodeDataUrl}
+            alt={t("admin.account.mfa.qrAlt")}
+            width={176}
+            height={176}
+            unoptimized
+            className="rounded-lg border border-border/60 bg-white p-2"
+          />
+          <div className="min-w-0 flex-1 space-y-2 text-sm">
+            <p>{t("admin.account.mfa.scan")}</p>
+            <p className="text-muted-foreground">
+              {t("admin.account.mfa.manualKey")}
+            </p>
+            <div className="flex items-center gap-2">
+              <code
+                className="truncate rounded-lg border border-border/60 bg-muted/40 px-2 py-1 font-mono text-xs"
+                dir="ltr"
+              >
+                {enrollment.secret}
+              </code>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="rounded-xl"
+                aria-label={t("admin.account.mfa.copyKey")}
+                onClick={() => void copy(enrollment.secret)}
+              >
+                <ClipboardDocumentIcon className="size-4" />
+              </Button>
+            </div>
+          </div>
+        </div>
+        <p className="text-sm">{t("admin.account.mfa.confirmDesc")}</p>
+        <MfaCodeForm
+          submitLabel={t("admin.account.mfa.confirm")}
+          onCode={confirmEnrollment}
+        />
+        <Button
+          type="button"
+          variant="ghost"
+          className="rounded-xl"
+          onClick={() => setEnrollment(null)}
+        >
+          {t("common.cancel")}
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-xl border border-border/60 bg-background/60 p-4">
+      <p className="text-sm text-muted-foreground">
+        {t("admin.account.mfa.off")}
+      </p>
+      <Button
+        type="button"
+        className="rounded-xl"
+        disabled={starting}
+        onClick={() => void startEnrollment()}
+      >
+        {starting ? (
+          <ArrowPathIcon className="size-4 animate-spin" />
+        ) : (
+          <ShieldCheckIcon className="size-4" />
+        )}
+        {t("admin.account.mfa.enable")}
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+"use client";
+
+import { useI18n } from "@/i18n/I18nProvider";
+import { PASSWORD_STRENGTHS, getPasswordStrength } from "@/lib/auth/password";
+import { cn } from "@/lib/utils";
+
+const barColors = [
+  "bg-destructive",
+  "bg-destructive",
+  "bg-amber-500",
+  "bg-emerald-500",
+  "bg-emerald-600",
+] as const;
+
+export function PasswordStrengthMeter({ password }: { password: string }) {
+  const { t } = useI18n();
+  const strength = getPasswordStrength(password);
+  const level = PASSWORD_STRENGTHS.indexOf(strength);
+
+  if (!password) return null;
+
+  return (
+    <div className="grid gap-1" aria-live="polite">
+      <div className="grid grid-cols-4 gap-1">
+        {[1, 2, 3, 4].map((bar) => (
+          <div
+            key={bar}
+            className={cn(
+              "h-1.5 rounded-full",
+              bar <= level ? barColors[level] : "bg-muted"
+            )}
+          />
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {t("admin.passwordStrength.label", {
+          strength: t(`admin.passwordStrength.${strength}`),
+        })}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,401 @@
+"use client";
+
+import * as React from "react";
+import Link from "next/link";
+import {
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/solid";
+
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useI18n } from "@/i18n/I18nProvider";
+import { getIntlLocale } from "@/i18n/i18n";
+import { cardRequestsHref } from "@/lib/admin/card-requests-query";
+import {
+  CARD_REQUEST_AGE_BUCKETS,
+  CARD_REQUEST_STATUSES,
+  adminGetCardRequestStats,
+  type CardRequestAgeBucket,
+  type CardRequestStatsResponse,
+  type CardRequestStatus,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { cn } from "@/lib/utils";
+
+const WEEKS = 12;
+
+const AGEING_STATUSES = ["IN_PROGRESS", "READY"] as const;
+
+// Static class names so Tailwind picks up the --chart-1..5 tokens.
+const chartColors = [
+  "bg-chart-1",
+  "bg-chart-2",
+  "bg-chart-3",
+  "bg-chart-4",
+  "bg-chart-5",
+] as const;
+
+const statusColor: Record<CardRequestStatus, string> = {
+  CREATED: "bg-chart-3",
+  IN_PROGRESS: "bg-chart-4",
+  READY: "bg-chart-2",
+  DELIVERED: "bg-chart-1",
+  CANCELLED: "bg-chart-5",
+};
+
+const bucketColor: Record<CardRequestAgeBucket, string> = {
+  "0-7": "bg-chart-2",
+  "8-14": "bg-chart-4",
+  "15-30": "bg-chart-5",
+  "31+": "bg-chart-1",
+};
+
+function addDays(isoDate: string, days: number): string {
+  const d = new Date(`${isoDate}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function percent(count: number, total: number): number {
+  return total ? (count / total) * 100 : 0;
+}
+
+function Panel({
+  title,
+  children,
+  className,
+}: {
+  title: string;
+  children: React.ReactNode;
+  className?: string;
+}) {
+  return (
+    <section
+      className={cn(
+        "rounded-xl border border-border/60 bg-background/60 p-4",
+        className
+      )}
+    >
+      <p className="mb-3 text-sm font-semibold">{title}</p>
+      {children}
+    </section>
+  );
+}
+
+function LegendItem({ color, label }: { color: string; label: string }) {
+  return (
+    <span className="flex items-center gap-1.5 text-xs text-muted-foreground">
+      <span className={cn("size-2.5 rounded-sm", color)} />
+      {label}
+    </span>
+  );
+}
+
+export function StatsDashboard() {
+  const { t, locale } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+
+  const intlLocale = getIntlLocale(locale);
+
+  const [stats, setStats] = React.useState<CardRequestStatsResponse | null>(
+    null
+  );
+  const [loading, setLoading] = React.useState(false);
+  const [loadFailed, setLoadFailed] = React.useState(false);
+  const abortRef = React.useRef<AbortController | null>(null);
+
+  const { status: authStatus, getAccessToken, setAccessToken } = auth;
+
+  const load = React.useCallback(async () => {
+    const accessToken = getAccessToken();
+    if (authStatus !== "authenticated" || !accessToken) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    setLoading(true);
+    setLoadFailed(false);
+    try {
+      const res = await adminGetCardRequestStats(
+        { weeks: WEEKS },
+        {
+          accessToken,
+          onAccessTokenRefreshed: setAccessToken,
+          signal: controller.signal,
+        }
+      );
+      setStats(res);
+    } catch (e) {
+      if (controller.signal.aborted) return;
+      if ((e as Error)?.name === "AbortError") return;
+      setLoadFailed(true);
+      toast.apiError(e);
+    } finally {
+      if (abortRef.current === controller) setLoading(false);
+    }
+  }, [authStatus, getAccessToken, setAccessToken, toast]);
+
+  React.useEffect(() => {
+    void load();
+    return () => abortRef.current?.abort();
+  }, [load]);
+
+  if (!stats && loadFailed) {
+    return (
+      <div className="flex flex-col items-center gap-3 rounded-xl border border-border/60 bg-background/60 p-8 text-center">
+        <ExclamationTriangleIcon className="size-6 text-destructive" />
+        <p className="text-sm text-muted-foreground">
+          {t("admin.stats.loadError")}
+        </p>
+        <Button
+          type="button"
+          variant="outline"
+          className="rounded-xl"
+          onClick={() => void load()}
+          disabled={loading}
+        >
+          <ArrowPathIcon className={cn("size-4", loading && "animate-spin")} />
+          {t("admin.stats.retry")}
+        </Button>
+      </div>
+    );
+  }
+
+  if (!stats) {
+    return (
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Skeleton className="h-40 w-full rounded-xl lg:col-span-2" />
+        <Skeleton className="h-64 w-full rounded-xl" />
+        <Skeleton className="h-64 w-full rounded-xl" />
+      </div>
+    );
+  }
+
+  const statusCounts = new Map(stats.byStatus.map((s) => [s.status, s.count]));
+  const gouvernorats = [...stats.byGouvernorat].sort(
+    (a, b) => b.count - a.count
+  );
+  const maxGouvernorat = gouvernorats[0]?.count ?? 0;
+  const maxWeekly = Math.max(
+    0,
+    ...stats.weekly.map((w) => Math.max(w.created, w.delivered))
+  );
+  const weekFormat = new Intl.DateTimeFormat(intlLocale, {
+    day: "2-digit",
+    month: "short",
+    timeZone: "UTC",
+  });
+  const numberFormat = new Intl.NumberFormat(intlLocale);
+
+  return (
+    <div className="grid gap-4 lg:grid-cols-2">
+      <Panel title={t("admin.stats.byStatus")} className="lg:col-span-2">
+        <div className="mb-4 flex items-baseline justify-between gap-3">
+          <p className="text-3xl font-semibold tabular-nums">
+            {numberFormat.format(stats.total)}
+          </p>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="rounded-lg"
+            onClick={() => void load()}
+            disabled={loading}
+          >
+            <ArrowPathIcon
+              className={cn("size-4", loading && "animate-spin")}
+            />
+            {t("admin.stats.refresh")}
+          </Button>
+        </div>
+
+        <div className="flex h-4 overflow-hidden rounded-full bg-muted">
+          {CARD_REQUEST_STATUSES.map((status) => {
+            const count = statusCounts.get(status) ?? 0;
+            if (!count) return null;
+            const label = `${t(`status.${status}`)}: ${numberFormat.format(count)}`;
+            return (
+              <Link
+                key={status}
+                href={cardRequestsHref({ status })}
+                className={cn(
+                  "h-full transition-opacity hover:opacity-80",
+                  statusColor[status]
+                )}
+                style={{ width: `${percent(count, stats.total)}%` }}
+                title={label}
+                aria-label={label}
+              />
+            );
+          })}
+        </div>
+
+        <div className="mt-4 grid grid-cols-2 gap-2 sm:grid-cols-5">
+          {CARD_REQUEST_STATUSES.map((status) => (
+            <Link
+              key={status}
+              href={cardRequestsHref({ status })}
+              className="rounded-lg border border-border/60 p-2 transition-colors hover:bg-muted/50"
+            >
+              <LegendItem
+                color={statusColor[status]}
+                label={t(`status.${status}`)}
+              />
+              <p className="mt-1 text-lg font-semibold tabular-nums">
+                {numberFormat.format(statusCounts.get(status) ?? 0)}
+              </p>
+            </Link>
+          ))}
+        </div>
+      </Panel>
+
+      <Panel title={t("admin.stats.weekly", { weeks: WEEKS })}>
+        <div className="mb-3 flex gap-3">
+          <LegendItem color="bg-chart-1" label={t("admin.stats.created")} />
+          <LegendItem color="bg-chart-2" label={t("admin.stats.delivered")} />
+        </div>
+        {stats.weekly.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("admin.stats.empty")}
+          </p>
+        ) : (
+          <div className="flex h-48 items-end gap-1">
+            {stats.weekly.map((w) => {
+              const weekLabel = weekFormat.format(
+                new Date(`${w.weekStart}T00:00:00Z`)
+              );
+              const createdLabel = t("admin.stats.weekCreated", {
+                week: weekLabel,
+                count: w.created,
+              });
+              const deliveredLabel = t("admin.stats.weekDelivered", {
+                week: weekLabel,
+                count: w.delivered,
+              });
+              return (
+                <div
+                  key={w.weekStart}
+                  className="flex h-full min-w-0 flex-1 flex-col justify-end gap-1"
+                >
+                  <div className="flex min-h-0 flex-1 items-end justify-center gap-0.5">
+                    {/* Table date filters apply to the creation date. */}
+                    <Link
+                      href={cardRequestsHref({
+                        dateFrom: w.weekStart,
+                        dateTo: addDays(w.weekStart, 6),
+                      })}
+                      className="w-1/2 max-w-4 rounded-t-sm bg-chart-1 transition-opacity hover:opacity-80"
+                      style={{ height: `${percent(w.created, maxWeekly)}%` }}
+                      title={createdLabel}
+                      aria-label={createdLabel}
+                    />
+                    <div
+                      className="w-1/2 max-w-4 rounded-t-sm bg-chart-2"
+                      style={{ height: `${percent(w.delivered, maxWeekly)}%` }}
+                      title={deliveredLabel}
+                    />
+                  </div>
+                  <span className="truncate text-center text-[10px] text-muted-foreground">
+                    {weekLabel}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </Panel>
+
+      <Panel title={t("admin.stats.ageing")}>
+        <div className="mb-3 flex flex-wrap gap-3">
+          {CARD_REQUEST_AGE_BUCKETS.map((bucket) => (
+            <LegendItem
+              key={bucket}
+              color={bucketColor[bucket]}
+              label={t(`admin.stats.buckets.${bucket}`)}
+            />
+          ))}
+        </div>
+        <div className="grid gap-4">
+          {AGEING_STATUSES.map((status) => {
+            const rows = stats.ageing.filter((a) => a.status === status);
+            const total = rows.reduce((sum, a) => sum + a.count, 0);
+            return (
+              <div key={status} className="grid gap-1.5">
+                <div className="flex items-center justify-between text-sm">
+                  {/* The list cannot filter by time in status: segments are
+                      not links, the status opens its oldest requests first. */}
+                  <Link
+                    href={cardRequestsHref({
+                      status,
+                      sortBy: "updatedAt",
+                      sortDir: "asc",
+                    })}
+                    className="underline-offset-4 hover:underline"
+                  >
+                    {t(`status.${status}`)}
+                  </Link>
+                  <span className="tabular-nums text-muted-foreground">
+                    {numberFormat.format(total)}
+                  </span>
+                </div>
+                <div className="flex h-3 overflow-hidden rounded-full bg-muted">
+                  {CARD_REQUEST_AGE_BUCKETS.map((bucket) => {
+                    const count =
+                      rows.find((a) => a.bucket === bucket)?.count ?? 0;
+                    if (!count) return null;
+                    const label = `${t(`admin.stats.buckets.${bucket}`)}: ${numberFormat.format(count)}`;
+                    return (
+                      <div
+                        key={bucket}
+                        className={cn("h-full", bucketColor[bucket])}
+                        style={{ width: `${percent(count, total)}%` }}
+                        title={label}
+                      />
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </Panel>
+
+      <Panel title={t("admin.stats.byGouvernorat")} className="lg:col-span-2">
+        {gouvernorats.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {t("admin.stats.empty")}
+          </p>
+        ) : (
+          <ul className="grid gap-1.5 sm:grid-cols-2 sm:gap-x-6">
+            {gouvernorats.map((g, i) => (
+              <li key={g.gouvernorat}>
+                <Link
+                  href={cardRequestsHref({ gouvernorat: g.gouvernorat })}
+                  className="group grid grid-cols-[8rem_1fr_3rem] items-center gap-2 text-sm"
+                >
+                  <span className="truncate">{g.gouvernorat}</span>
+                  <span className="h-2.5 overflow-hidden rounded-full bg-muted">
+                    <span
+                      className={cn(
+                        "block h-full rounded-full transition-opacity group-hover:opacity-80",
+                        chartColors[i % chartColors.length]
+                      )}
+                      style={{ width: `${percent(g.count, maxGouvernorat)}%` }}
+                    />
+                  </span>
+                  <span className="text-end tabular-nums text-muted-foreground">
+                    {numberFormat.format(g.count)}
+                  </span>
+                </Link>
+              </li>
+            ))}
+          </ul>
+        )}
+      </Panel>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import { useI18n } from "@/i18n/I18nProvider";
+import { getStatusLabel } from "@/i18n/labels";
+
+export function StatusBadge({ status }: { status: string }) {
+  const { t } = useI18n();
+  const label = getStatusLabel(t, status);
+
+  const variant =
+    status === "CANCELLED"
+      ? "destructive"
+      : status === "READY" || status === "DELIVERED"
+        ? "default"
+        : "secondary";
+
+  return (
+    <Badge
+      variant={variant as "default" | "secondary" | "destructive"}
+      className="rounded-lg"
+    >
+      {label}
+    </Badge>
+  );
+}
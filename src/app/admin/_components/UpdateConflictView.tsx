@@ -0,0 +1,120 @@
+"use client";
+
+import * as React from "react";
+import {
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/solid";
+
+import { type UpdateValues } from "@/app/admin/_components/UpdateStatusForm";
+import { Button } from "@/components/ui/button";
+import { formatDateTime, getIntlLocale } from "@/i18n/i18n";
+import { useI18n } from "@/i18n/I18nProvider";
+import { getStatusLabel } from "@/i18n/labels";
+import { type AdminCardRequestItem } from "@/lib/api/client";
+import { cn } from "@/lib/utils";
+
+/**
+ * Shown when an update was rejected because someone else changed the record
+ * first: the server's current values next to the edit that was not saved.
+ */
+export function UpdateConflictView({
+  current,
+  pending,
+  submitting,
+  onReapply,
+  onDiscard,
+}: {
+  current: AdminCardRequestItem;
+  pending: UpdateValues;
+  submitting: boolean;
+  onReapply: () => void;
+  onDiscard: () => void;
+}) {
+  const { t, locale } = useI18n();
+
+  const rows: { label: string; server: string; mine: string | null }[] = [
+    {
+      label: t("admin.conflict.status"),
+      server: getStatusLabel(t, current.status),
+      mine:
+        pending.status === "UNCHANGED"
+          ? null
+          : getStatusLabel(t, pending.status),
+    },
+    {
+      label: t("admin.updateStatus.establishment"),
+      server: current.pickupEstablishment ?? "—",
+      mine: pending.pickupEstablishment || null,
+    },
+    {
+      label: t("admin.updateStatus.address"),
+      server: current.pickupAddress ?? "—",
+      mine: pending.pickupAddress || null,
+    },
+  ];
+
+  return (
+    <div className="grid gap-4">
+      <div className="flex gap-2 rounded-xl border border-amber-500/40 bg-amber-500/10 p-3 text-sm">
+        <ExclamationTriangleIcon className="mt-0.5 size-4 shrink-0 text-amber-600" />
+        <div className="grid gap-1">
+          <p className="font-medium">{t("admin.conflict.title")}</p>
+          <p className="text-muted-foreground">
+            {t("admin.conflict.description", {
+              date: formatDateTime(current.updatedAt, getIntlLocale(locale)),
+            })}
+          </p>
+        </div>
+      </div>
+
+      <div className="overflow-hidden rounded-xl border border-border/60 text-sm">
+        <div className="grid grid-cols-3 gap-2 bg-muted/40 px-3 py-2 text-xs font-medium text-muted-foreground">
+          <span />
+          <span>{t("admin.conflict.server")}</span>
+          <span>{t("admin.conflict.mine")}</span>
+        </div>
+        {rows.map((row) => (
+          <div
+            key={row.label}
+            className="grid grid-cols-3 gap-2 border-t border-border/60 px-3 py-2"
+          >
+            <span className="text-muted-foreground">{row.label}</span>
+            <span className="break-words">{row.server}</span>
+            <span
+              className={cn(
+                "break-words",
+                row.mine === null ? "text-muted-foreground" : "font-medium"
+              )}
+            >
+              {row.mine ?? t("admin.conflict.noChange")}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+        <Button
+          type="button"
+          variant="ghost"
+          className="rounded-xl"
+          onClick={onDiscard}
+          disabled={submitting}
+        >
+          {t("admin.conflict.discard")}
+        </Button>
+        <Button
+          type="button"
+          className="rounded-xl"
+          onClick={onReapply}
+          disabled={submitting}
+        >
+          {submitting ? (
+            <ArrowPathIcon className="size-4 animate-spin" />
+          ) : null}
+          {t("admin.conflict.reapply")}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,510 @@
+"use client";
+
+import * as React from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+  LockClosedIcon,
+} from "@heroicons/react/24/solid";
+import { useForm, useWatch, type Control } from "react-hook-form";
+import { z } from "zod";
+
+import { UpdateConflictView } from "@/app/admin/_components/UpdateConflictView";
+import { useAppToast } from "@/components/toast/toast";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useI18n, type TFunction } from "@/i18n/I18nProvider";
+import {
+  CARD_REQUEST_STATUSES,
+  CardRequestConflictError,
+  adminGetCardRequest,
+  adminUpdateCardRequest,
+  type AdminCardRequestItem,
+  type AdminCardRequestUpdateBody,
+  type CardRequestStatus,
+} from "@/lib/api/client";
+import { useAuth } from "@/lib/auth/auth-context";
+import { usePermissions } from "@/lib/auth/permissions";
+import {
+  STATUSES_REQUIRING_PICKUP,
+  canTransition,
+  getNextStatuses,
+  isCardRequestStatus,
+  isFinalStatus,
+} from "@/lib/status-lifecycle";
+
+const statusValues = ["UNCHANGED", ...CARD_REQUEST_STATUSES] as const;
+
+/**
+ * The record being edited, when there is exactly one. Without it (bulk
+ * updates) every status is offered and the lifecycle is enforced server-side.
+ */
+type UpdateTarget = Pick<
+  AdminCardRequestItem,
+  "status" | "pickupEstablishment" | "pickupAddress"
+> | null;
+
+export function makeUpdateSchema(t: TFunction, target: UpdateTarget = null) {
+  return z
+    .object({
+      status: z.enum(statusValues),
+      pickupEstablishment: z.string().trim().max(255).optional(),
+      pickupAddress: z.string().trim().max(255).optional(),
+      force: z.boolean(),
+      reason: z.string().trim().max(500).optional(),
+    })
+    .refine(
+      (v) =>
+        v.status !== "UNCHANGED" || v.pickupEstablishment || v.pickupAddress,
+      {
+        message: t("admin.updateStatus.validation.atLeastOneField"),
+        path: ["status"],
+      }
+    )
+    .superRefine((v, ctx) => {
+      if (v.force) {
+        if (!v.reason || v.reason.length < 10) {
+          ctx.addIssue({
+            code: "custom",
+            message: t("admin.updateStatus.validation.reasonRequired"),
+            path: ["reason"],
+          });
+        }
+        return;
+      }
+      if (v.status === "UNCHANGED") return;
+
+      if (target && !canTransition(target.status, v.status)) {
+        ctx.addIssue({
+          code: "custom",
+          message: t("admin.updateStatus.validation.transitionNotAllowed"),
+          path: ["status"],
+        });
+      }
+
+      if (STATUSES_REQUIRING_PICKUP.includes(v.status)) {
+        const message = t("admin.updateStatus.validation.pickupRequired");
+        if (!v.pickupEstablishment && !target?.pickupEstablishment) {
+          ctx.addIssue({
+            code: "custom",
+            message,
+            path: ["pickupEstablishment"],
+          });
+        }
+        if (!v.pickupAddress && !target?.pickupAddress) {
+          ctx.addIssue({ code: "custom", message, path: ["pickupAddress"] });
+        }
+      }
+    });
+}
+
+export type UpdateValues = z.infer<ReturnType<typeof makeUpdateSchema>>;
+
+export const updateDefaultValues: UpdateValues = {
+  status: "UNCHANGED",
+  pickupEstablishment: undefined,
+  pickupAddress: undefined,
+  force: false,
+  reason: undefined,
+};
+
+export function toUpdateBody(values: UpdateValues): AdminCardRequestUpdateBody {
+  const body: AdminCardRequestUpdateBody = {};
+  if (values.status !== "UNCHANGED")
+    body.status = values.status as CardRequestStatus;
+  if (values.pickupEstablishment)
+    body.pickupEstablishment = values.pickupEstablishment;
+  if (values.pickupAddress) body.pickupAddress = values.pickupAddress;
+  if (values.force) {
+    body.force = true;
+    body.reason = values.reason;
+  }
+  return body;
+}
+
+/** Status + pickup fields, shared by the single-row and bulk update forms. */
+export function UpdateStatusFields({
+  control,
+  currentStatus = null,
+  allowForce = false,
+}: {
+  control: Control<UpdateValues>;
+  currentStatus?: string | null;
+  allowForce?: boolean;
+}) {
+  const { t } = useI18n();
+  const force = useWatch({ control, name: "force" });
+
+  // Only legal next states, unless the lifecycle is being overridden or the
+  // current status is unknown.
+  const options: readonly CardRequestStatus[] =
+    force || currentStatus === null || !isCardRequestStatus(currentStatus)
+      ? CARD_REQUEST_STATUSES.filter((s) => s !== currentStatus)
+      : getNextStatuses(currentStatus);
+  const final =
+    !force && currentStatus !== null && isFinalStatus(currentStatus);
+
+  return (
+    <>
+      <FormField
+        control={control}
+        name="status"
+        render={({ field }) => (
+          <FormItem>
+            <FormLabel>{t("admin.updateStatus.newStatus")}</FormLabel>
+            <FormControl>
+              <Select value={field.value} onValueChange={field.onChange}>
+                <SelectTrigger className="w-full rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="UNCHANGED">
+                    {t("admin.updateStatus.unchanged")}
+                  </SelectItem>
+                  {options.map((s) => (
+                    <SelectItem key={s} value={s}>
+                      {t(`status.${s}`)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormControl>
+            {final ? (
+              <FormDescription>
+                {t("admin.updateStatus.finalStatusHint")}
+              </FormDescription>
+            ) : null}
+            <FormMessage />
+          </FormItem>
+        )}
+      />
+
+      <div className="grid gap-4 sm:grid-cols-2">
+        <FormField
+          control={control}
+          name="pickupEstablishment"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("admin.updateStatus.newEstablishment")}</FormLabel>
+              <FormControl>
+                <Textarea
+                  className="min-h-[72px] rounded-xl"
+                  placeholder={t("admin.updateStatus.placeholderEstablishment")}
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={control}
+          name="pickupAddress"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{t("admin.updateStatus.newAddress")}</FormLabel>
+              <FormControl>
+                <Textarea
+                  className="min-h-[72px] rounded-xl"
+                  placeholder={t("admin.updateStatus.placeholderAddress")}
+                  {...field}
+                  value={field.value ?? ""}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+      </div>
+
+      {allowForce ? (
+        <>
+          <FormField
+            control={control}
+            name="force"
+            render={({ field }) => (
+              <FormItem className="flex items-start gap-2">
+                <FormControl>
+                  <input
+                    type="checkbox"
+                    className="mt-0.5 size-4 cursor-pointer accent-destructive"
+                    checked={field.value}
+                    onChange={(e) => field.onChange(e.target.checked)}
+                    onBlur={field.onBlur}
+                  />
+                </FormControl>
+                <div className="grid gap-1">
+                  <FormLabel>{t("admin.updateStatus.force")}</FormLabel>
+                  <FormDescription>
+                    {t("admin.updateStatus.forceHint")}
+                  </FormDescription>
+                </div>
+              </FormItem>
+            )}
+          />
+
+          {force ? (
+            <FormField
+              control={control}
+              name="reason"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{t("admin.updateStatus.reason")}</FormLabel>
+                  <FormControl>
+                    <Textarea
+                      className="min-h-[72px] rounded-xl"
+                      placeholder={t("admin.updateStatus.placeholderReason")}
+                      {...field}
+                      value={field.value ?? ""}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ) : null}
+        </>
+      ) : null}
+    </>
+  );
+}
+
+export function UpdateStatusForm({
+  item,
+  onCancel,
+  onUpdated,
+}: {
+  item: AdminCardRequestItem | null;
+  onCancel: () => void;
+  onUpdated: () => void;
+}) {
+  const { t } = useI18n();
+  const toast = useAppToast();
+  const auth = useAuth();
+  const permissions = usePermissions();
+
+  // The record the edit started from. `item` may be swapped for a fresher
+  // copy while the form is open; sending its version would silently overwrite
+  // whatever changed in between instead of reporting a conflict.
+  const [editBase, setEditBase] = React.useState<AdminCardRequestItem | null>(
+    null
+  );
+  const base = editBase && editBase.id === item?.id ? editBase : item;
+
+  const updateSchema = React.useMemo(
+    () => makeUpdateSchema(t, base),
+    [t, base]
+  );
+  const form = useForm<UpdateValues>({
+    resolver: zodResolver(updateSchema),
+    defaultValues: updateDefaultValues,
+    mode: "onBlur",
+  });
+
+  const [submitting, setSubmitting] = React.useState(false);
+  // Forced updates go through a second, explicit confirmation step.
+  const [pendingForce, setPendingForce] = React.useState<UpdateValues | null>(
+    null
+  );
+
+  // Any edit after asking for confirmation invalidates it. The first edit
+  // also pins the version being edited.
+  React.useEffect(() => {
+    const sub = form.watch(() => {
+      setPendingForce(null);
+      if (!item) return;
+      setEditBase((prev) => (prev?.id === item.id ? prev : item));
+    });
+    return () => sub.unsubscribe();
+  }, [form, item]);
+
+  // Set when the record changed on the server since `item` was read.
+  const [conflict, setConflict] = React.useState<{
+    current: AdminCardRequestItem;
+    pending: UpdateValues;
+  } | null>(null);
+
+  async function submit(
+    values: UpdateValues,
+    expectedUpdatedAt = base?.updatedAt
+  ) {
+    if (!item || !auth.accessToken) return;
+
+    const body = toUpdateBody(values);
+
+    setSubmitting(true);
+    try {
+      await adminUpdateCardRequest(item.id, body, {
+        accessToken: auth.accessToken,
+        onAccessTokenRefreshed: auth.setAccessToken,
+        expectedUpdatedAt,
+      });
+      toast.success(t("toast.success"), t("admin.updateStatus.successToast"));
+      form.reset();
+      setEditBase(null);
+      setPendingForce(null);
+      setConflict(null);
+      onUpdated();
+    } catch (e) {
+      if (e instanceof CardRequestConflictError) {
+        const current =
+          e.current ??
+          (await adminGetCardRequest(item.id, {
+            accessToken: auth.accessToken,
+            onAccessTokenRefreshed: auth.setAccessToken,
+          }).catch(() => null));
+        if (current) {
+          setPendingForce(null);
+          setConflict({ current, pending: values });
+          return;
+        }
+      }
+      toast.apiError(e);
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  // The other edit may have moved the record to a status from which the
+  // pending change is no longer allowed: check again before resending it.
+  function reapply() {
+    if (!conflict) return;
+    const { current, pending } = conflict;
+    const result = makeUpdateSchema(t, current).safeParse(pending);
+    if (result.success) {
+      void submit(result.data, current.updatedAt);
+      return;
+    }
+    // Back to the form, now editing the server's version, with the errors.
+    setEditBase(current);
+    setConflict(null);
+    for (const issue of result.error.issues) {
+      form.setError(issue.path[0] as keyof UpdateValues, {
+        type: "validate",
+        message: issue.message,
+      });
+    }
+  }
+
+  async function onSubmit(values: UpdateValues) {
+    if (values.force) {
+      setPendingForce(values);
+      return;
+    }
+    await submit(values);
+  }
+
+  if (item && !permissions.canUpdate(item)) {
+    return (
+      <p className="flex items-center gap-2 rounded-xl border border-border/60 bg-muted/20 p-3 text-sm text-muted-foreground">
+        <LockClosedIcon className="size-4 shrink-0" />
+        {t("admin.permissions.readOnly")}
+      </p>
+    );
+  }
+
+  if (conflict) {
+    return (
+      <UpdateConflictView
+        current={conflict.current}
+        pending={conflict.pending}
+        submitting={submitting}
+        onReapply={reapply}
+        onDiscard={() => {
+          form.reset();
+          setEditBase(null);
+          setConflict(null);
+          // Let the parent reload the record with the server's values.
+          onUpdated();
+        }}
+      />
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form className="grid gap-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <UpdateStatusFields
+          control={form.control}
+          currentStatus={base?.status ?? null}
+          allowForce={permissions.can("cardRequests.forceStatus")}
+        />
+
+        {pendingForce ? (
+          <div className="grid gap-3 rounded-xl border border-destructive/40 bg-destructive/5 p-3 text-sm">
+            <p className="flex items-center gap-2 font-medium">
+              <ExclamationTriangleIcon className="size-4 text-destructive" />
+              {t("admin.updateStatus.forceConfirmTitle")}
+            </p>
+            <p className="text-muted-foreground">
+              {t("admin.updateStatus.forceConfirmDesc")}
+            </p>
+            <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                className="rounded-xl"
+                onClick={() => setPendingForce(null)}
+                disabled={submitting}
+              >
+                {t("admin.updateStatus.forceBack")}
+              </Button>
+              <Button
+                type="button"
+                variant="destructive"
+                className="rounded-xl"
+                onClick={() => void submit(pendingForce)}
+                disabled={submitting}
+              >
+                {submitting ? (
+                  <ArrowPathIcon className="size-4 animate-spin" />
+                ) : null}
+                {t("admin.updateStatus.forceConfirm")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col-reverse gap-2 sm:flex-row sm:justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              className="rounded-xl"
+              onClick={onCancel}
+            >
+              {t("common.cancel")}
+            </Button>
+            <Button
+              type="submit"
+              className="rounded-xl"
+              disabled={submitting || !item}
+            >
+              {submitting ? (
+                <ArrowPathIcon className="size-4 animate-spin" />
+              ) : null}
+              {t("common.save")}
+            </Button>
+          </div>
+        )}
+      </form>
+    </Form>
+  );
+}
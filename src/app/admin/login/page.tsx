@@ -4,15 +4,18 @@ import * as React from "react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import {
   ArrowPathIcon,
+  ClockIcon,
+  ExclamationTriangleIcon,
   EyeIcon,
   EyeSlashIcon,
   LockClosedIcon,
   UserCircleIcon,
 } from "@heroicons/react/24/solid";
-import { useRouter } from "next/navigation";
-import { useForm } from "react-hook-form";
+import { useRouter, useSearchParams } from "next/navigation";
+import { useForm, useWatch } from "react-hook-form";
 import { z } from "zod";
 
+import { MfaChallengeForm } from "@/app/admin/_components/MfaChallengeForm";
 import { LocaleSwitcher } from "@/components/LocaleSwitcher";
 import { useAppToast } from "@/components/toast/toast";
 import { Button } from "@/components/ui/button";
@@ -33,7 +36,11 @@ import {
 } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { useI18n, type TFunction } from "@/i18n/I18nProvider";
-import { useAuth } from "@/lib/auth/auth-context";
+import { ApiClientError, getRemainingLoginAttempts } from "@/lib/api/client";
+import { isSignOutReason, useAuth } from "@/lib/auth/auth-context";
+import { RETURN_TO_PARAM, sanitizeReturnTo } from "@/lib/auth/login-redirect";
+import { PASSWORD_MAX_LENGTH, PASSWORD_MIN_LENGTH } from "@/lib/auth/password";
+import { useCooldown } from "@/lib/use-cooldown";
 import { cn } from "@/lib/utils";
 
 function makeLoginSchema(t: TFunction) {
@@ -45,8 +52,8 @@ function makeLoginSchema(t: TFunction) {
       .max(100),
     password: z
       .string()
-      .min(8, t("admin.login.validation.passwordMin"))
-      .max(200),
+      .min(PASSWORD_MIN_LENGTH, t("admin.login.validation.passwordMin"))
+      .max(PASSWORD_MAX_LENGTH),
   });
 }
 
@@ -55,10 +62,15 @@ type LoginValues = z.infer<ReturnType<typeof makeLoginSchema>>;
 export default function AdminLoginPage() {
   const { t, locale } = useI18n();
   const router = useRouter();
+  const searchParams = useSearchParams();
   const toast = useAppToast();
   const auth = useAuth();
 
   const isRtl = locale === "ar";
+  const reason = searchParams.get("reason");
+  const signOutReason = isSignOutReason(reason) ? reason : null;
+  const returnTo =
+    sanitizeReturnTo(searchParams.get(RETURN_TO_PARAM)) ?? "/admin";
 
   const [showPassword, setShowPassword] = React.useState(false);
 
@@ -70,20 +82,51 @@ export default function AdminLoginPage() {
   });
 
   const [submitting, setSubmitting] = React.useState(false);
+  const cooldown = useCooldown();
+  const [attemptsLeft, setAttemptsLeft] = React.useState<number | null>(null);
+  // A lock is per account: typing another username lifts it in the UI.
+  const [lockedUsername, setLockedUsername] = React.useState<string | null>(
+    null
+  );
+  const username = useWatch({ control: form.control, name: "username" });
+  const locked = lockedUsername !== null && lockedUsername === username.trim();
 
   React.useEffect(() => {
     if (auth.status === "authenticated") {
-      router.replace("/admin");
+      router.replace(returnTo);
     }
-  }, [auth.status, router]);
+  }, [auth.status, returnTo, router]);
+
+  const mfaRequired = auth.status === "mfa_required";
+
+  function onLoggedIn() {
+    toast.success(t("toast.success"), t("admin.login.successToast"));
+    router.replace(returnTo);
+  }
 
   async function onSubmit(values: LoginValues) {
+    if (cooldown.seconds > 0 || locked) return;
+
     setSubmitting(true);
+    setAttemptsLeft(null);
     try {
-      await auth.login(values.username, values.password);
-      toast.success(t("toast.success"), t("admin.login.successToast"));
-      router.replace("/admin");
+      const result = await auth.login(values.username, values.password);
+      if (result === "mfa_required") {
+        // Not kept around while the second step is pending.
+        form.resetField("password");
+        return;
+      }
+      onLoggedIn();
     } catch (e) {
+      if (e instanceof ApiClientError) {
+        if (e.code === "ACCOUNT_LOCKED") {
+          // Explained next to the form rather than in a toast.
+          setLockedUsername(values.username);
+          return;
+        }
+        if (e.status === 429) cooldown.start(e.retryAfterSeconds ?? 30);
+        setAttemptsLeft(getRemainingLoginAttempts(e));
+      }
       toast.apiError(e);
     } finally {
       setSubmitting(false);
@@ -99,101 +142,144 @@ export default function AdminLoginPage() {
         <Card className="border-border/60 bg-card/80 backdrop-blur">
           <CardHeader>
             <CardTitle className="text-2xl tracking-tight">
-              {t("admin.login.title")}
+              {mfaRequired
+                ? t("admin.login.mfa.title")
+                : t("admin.login.title")}
             </CardTitle>
             <CardDescription>{t("admin.title")}</CardDescription>
           </CardHeader>
-          <CardContent>
-            <Form {...form}>
-              <form
-                className="grid gap-4"
-                onSubmit={form.handleSubmit(onSubmit)}
+          <CardContent className="grid gap-4">
+            {signOutReason ? (
+              <div
+                role="status"
+                className="flex gap-2 rounded-xl border border-amber-500/40 bg-amber-500/10 p-3 text-sm"
               >
-                <FormField
-                  control={form.control}
-                  name="username"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>{t("admin.login.username")}</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <UserCircleIcon
-                            className={cn(
-                              "pointer-events-none absolute top-2.5 size-4 text-muted-foreground",
-                              isRtl ? "right-3" : "left-3"
-                            )}
-                          />
-                          <Input
-                            className={cn(isRtl ? "pr-9" : "pl-9")}
-                            autoComplete="username"
-                            {...field}
-                          />
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="password"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>{t("admin.login.password")}</FormLabel>
-                      <FormControl>
-                        <div className="relative">
-                          <LockClosedIcon
-                            className={cn(
-                              "pointer-events-none absolute top-2.5 size-4 text-muted-foreground",
-                              isRtl ? "right-3" : "left-3"
-                            )}
-                          />
-                          <Input
-                            className={cn(isRtl ? "pr-9 pl-10" : "pl-9 pr-10")}
-                            type={showPassword ? "text" : "password"}
-                            autoComplete="current-password"
-                            {...field}
-                          />
-                          <button
-                            type="button"
-                            className={cn(
-                              "absolute top-2 inline-flex size-7 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground",
-                              isRtl ? "left-2" : "right-2"
-                            )}
-                            aria-label={
-                              showPassword
-                                ? t("admin.login.hidePassword")
-                                : t("admin.login.showPassword")
-                            }
-                            aria-pressed={showPassword}
-                            onClick={() => setShowPassword((v) => !v)}
-                          >
-                            {showPassword ? (
-                              <EyeSlashIcon className="size-4" />
-                            ) : (
-                              <EyeIcon className="size-4" />
-                            )}
-                          </button>
-                        </div>
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
-                  )}
-                />
-
-                <Button
-                  type="submit"
-                  className="mt-1 rounded-xl"
-                  disabled={submitting}
+                <ClockIcon className="mt-0.5 size-4 shrink-0 text-amber-600" />
+                <p>{t(`admin.login.reason.${signOutReason}`)}</p>
+              </div>
+            ) : null}
+            {locked && !mfaRequired ? (
+              <div
+                role="alert"
+                className="flex gap-2 rounded-xl border border-destructive/40 bg-destructive/10 p-3 text-sm"
+              >
+                <LockClosedIcon className="mt-0.5 size-4 shrink-0 text-destructive" />
+                <div className="grid gap-1">
+                  <p className="font-medium">{t("admin.login.locked.title")}</p>
+                  <p className="text-muted-foreground">
+                    {t("admin.login.locked.desc")}
+                  </p>
+                </div>
+              </div>
+            ) : attemptsLeft !== null && !mfaRequired ? (
+              <div
+                role="status"
+                className="flex gap-2 rounded-xl border border-amber-500/40 bg-amber-500/10 p-3 text-sm"
+              >
+                <ExclamationTriangleIcon className="mt-0.5 size-4 shrink-0 text-amber-600" />
+                <p>{t("admin.login.attemptsLeft", { count: attemptsLeft })}</p>
+              </div>
+            ) : null}
+            {mfaRequired ? (
+              <MfaChallengeForm onVerified={onLoggedIn} />
+            ) : (
+              <Form {...form}>
+                <form
+                  className="grid gap-4"
+                  onSubmit={form.handleSubmit(onSubmit)}
                 >
-                  {submitting ? (
-                    <ArrowPathIcon className="size-4 animate-spin" />
-                  ) : null}
-                  {t("admin.login.submit")}
-                </Button>
-              </form>
-            </Form>
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("admin.login.username")}</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <UserCircleIcon
+                              className={cn(
+                                "pointer-events-none absolute top-2.5 size-4 text-muted-foreground",
+                                isRtl ? "right-3" : "left-3"
+                              )}
+                            />
+                            <Input
+                              className={cn(isRtl ? "pr-9" : "pl-9")}
+                              autoComplete="username"
+                              {...field}
+                            />
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("admin.login.password")}</FormLabel>
+                        <FormControl>
+                          <div className="relative">
+                            <LockClosedIcon
+                              className={cn(
+                                "pointer-events-none absolute top-2.5 size-4 text-muted-foreground",
+                                isRtl ? "right-3" : "left-3"
+                              )}
+                            />
+                            <Input
+                              className={cn(
+                                isRtl ? "pr-9 pl-10" : "pl-9 pr-10"
+                              )}
+                              type={showPassword ? "text" : "password"}
+                              autoComplete="current-password"
+                              {...field}
+                            />
+                            <button
+                              type="button"
+                              className={cn(
+                                "absolute top-2 inline-flex size-7 items-center justify-center rounded-md text-muted-foreground hover:bg-accent hover:text-foreground",
+                                isRtl ? "left-2" : "right-2"
+                              )}
+                              aria-label={
+                                showPassword
+                                  ? t("admin.login.hidePassword")
+                                  : t("admin.login.showPassword")
+                              }
+                              aria-pressed={showPassword}
+                              onClick={() => setShowPassword((v) => !v)}
+                            >
+                              {showPassword ? (
+                                <EyeSlashIcon className="size-4" />
+                              ) : (
+                                <EyeIcon className="size-4" />
+                              )}
+                            </button>
+                          </div>
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <Button
+                    type="submit"
+                    className="mt-1 rounded-xl"
+                    disabled={submitting || cooldown.seconds > 0 || locked}
+                  >
+                    {submitting ? (
+                      <ArrowPathIcon className="size-4 animate-spin" />
+                    ) : cooldown.seconds > 0 ? (
+                      <ClockIcon className="size-4" />
+                    ) : null}
+                    {cooldown.seconds > 0
+                      ? t("admin.login.retryIn", { seconds: cooldown.seconds })
+                      : t("admin.login.submit")}
+                  </Button>
+                </form>
+              </Form>
+            )}
           </CardContent>
         </Card>
       </main>
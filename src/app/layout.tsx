@@ -1,17 +1,14 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import { Noto_Sans_Arabic } from "next/font/google";
-import { cookies } from "next/headers";
 
 import { I18nProvider } from "@/i18n/I18nProvider";
+import { getLocaleDir, getMessages } from "@/i18n/i18n";
 import {
-  DEFAULT_LOCALE,
-  getLocaleDir,
-  getMessages,
-  isLocale,
-  LOCALE_COOKIE_NAME,
-  type Locale,
-} from "@/i18n/i18n";
+  getLocaleAlternates,
+  getRequestLocale,
+  getSiteOrigin,
+} from "@/i18n/server";
 import { ToastProvider } from "@/components/toast/ToastProvider";
 import { AuthProvider } from "@/lib/auth/auth-context";
 
@@ -34,19 +31,14 @@ const notoArabic = Noto_Sans_Arabic({
 
 export const dynamic = "force-dynamic";
 
-async function getRequestLocale(): Promise<Locale> {
-  const cookieStore = await cookies();
-  const value = cookieStore.get(LOCALE_COOKIE_NAME)?.value;
-  if (value && isLocale(value)) return value;
-  return DEFAULT_LOCALE;
-}
-
 export async function generateMetadata(): Promise<Metadata> {
   const locale = await getRequestLocale();
   const messages = getMessages(locale);
   return {
+    metadataBase: await getSiteOrigin(),
     title: messages.app.name,
     description: messages.app.description,
+    alternates: await getLocaleAlternates(),
   };
 }
 
@@ -0,0 +1,96 @@
+"use client";
+
+import * as React from "react";
+import {
+  ArrowPathIcon,
+  ExclamationTriangleIcon,
+} from "@heroicons/react/24/solid";
+
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useI18n } from "@/i18n/I18nProvider";
+
+/**
+ * Asks before a destructive action. The dialog stays open (with a spinner)
+ * while `onConfirm` runs and closes once it resolves; errors are left to
+ * `onConfirm` to report.
+ */
+export function ConfirmDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  confirmLabel,
+  destructive = false,
+  onConfirm,
+}: {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  confirmLabel: string;
+  destructive?: boolean;
+  onConfirm: () => Promise<boolean | void> | boolean | void;
+}) {
+  const { t } = useI18n();
+  const [pending, setPending] = React.useState(false);
+
+  async function confirm() {
+    setPending(true);
+    try {
+      // `false` keeps the dialog open, e.g. when the action failed.
+      if ((await onConfirm()) !== false) onOpenChange(false);
+    } finally {
+      setPending(false);
+    }
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!pending) onOpenChange(next);
+      }}
+    >
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            {destructive ? (
+              <ExclamationTriangleIcon className="size-4 text-destructive" />
+            ) : null}
+            {title}
+          </DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="ghost"
+            className="rounded-xl"
+            disabled={pending}
+            onClick={() => onOpenChange(false)}
+          >
+            {t("common.cancel")}
+          </Button>
+          <Button
+            type="button"
+            variant={destructive ? "destructive" : "default"}
+            className="rounded-xl"
+            disabled={pending}
+            onClick={() => void confirm()}
+          >
+            {pending ? <ArrowPathIcon className="size-4 animate-spin" /> : null}
+            {confirmLabel}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
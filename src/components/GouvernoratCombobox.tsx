@@ -0,0 +1,199 @@
+"use client";
+
+import * as React from "react";
+import { CheckIcon, ChevronDownIcon, XIcon } from "lucide-react";
+
+import { Input } from "@/components/ui/input";
+import { useI18n } from "@/i18n/I18nProvider";
+import {
+  findGouvernorat,
+  getGouvernoratLabel,
+  searchGouvernorats,
+} from "@/lib/gouvernorats";
+import { cn } from "@/lib/utils";
+
+/**
+ * Searchable select over the 24 governorates. Matches French and Arabic
+ * names regardless of case or accents; `onChange` always receives a canonical
+ * governorate value (or "" when cleared).
+ */
+export function GouvernoratCombobox({
+  value,
+  onChange,
+  onBlur,
+  placeholder,
+  clearable,
+  className,
+  id,
+  name,
+  "aria-invalid": ariaInvalid,
+  "aria-describedby": ariaDescribedBy,
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur?: () => void;
+  placeholder?: string;
+  clearable?: boolean;
+  className?: string;
+  id?: string;
+  name?: string;
+  "aria-invalid"?: boolean;
+  "aria-describedby"?: string;
+}) {
+  const { t, locale } = useI18n();
+  const listboxId = React.useId();
+
+  const selected = findGouvernorat(value);
+  // Unknown values (e.g. legacy free text from a URL) are shown as is.
+  const selectedLabel = selected
+    ? getGouvernoratLabel(selected, locale)
+    : value;
+
+  const [open, setOpen] = React.useState(false);
+  const [query, setQuery] = React.useState("");
+  const [activeIndex, setActiveIndex] = React.useState(0);
+  const listRef = React.useRef<HTMLUListElement | null>(null);
+
+  const options = React.useMemo(
+    () =>
+      searchGouvernorats(query).sort((a, b) =>
+        getGouvernoratLabel(a, locale).localeCompare(
+          getGouvernoratLabel(b, locale),
+          locale
+        )
+      ),
+    [query, locale]
+  );
+
+  React.useEffect(() => {
+    if (!open) return;
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: "nearest" });
+  }, [open, activeIndex]);
+
+  function select(next: string) {
+    onChange(next);
+    setQuery("");
+    setOpen(false);
+  }
+
+  function onKeyDown(e: React.KeyboardEvent<HTMLInputElement>) {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      if (!open) {
+        setOpen(true);
+        return;
+      }
+      const delta = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex(
+        (i) => (i + delta + options.length) % Math.max(1, options.length)
+      );
+    } else if (e.key === "Enter") {
+      if (!open) return;
+      e.preventDefault();
+      const option = options[activeIndex];
+      if (option) select(option.value);
+    } else if (e.key === "Escape" && open) {
+      e.preventDefault();
+      setQuery("");
+      setOpen(false);
+    }
+  }
+
+  return (
+    <div className={cn("relative", className)}>
+      <Input
+        id={id}
+        name={name}
+        role="combobox"
+        aria-expanded={open}
+        aria-controls={listboxId}
+        aria-autocomplete="list"
+        aria-activedescendant={
+          open && options[activeIndex]
+            ? `${listboxId}-${activeIndex}`
+            : undefined
+        }
+        aria-invalid={ariaInvalid}
+        aria-describedby={ariaDescribedBy}
+        autoComplete="off"
+        className="pe-14"
+        placeholder={placeholder}
+        value={open ? query : selectedLabel}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setActiveIndex(0);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onClick={() => setOpen(true)}
+        onKeyDown={onKeyDown}
+        onBlur={() => {
+          // Accept an exact name typed without picking it from the list.
+          const typed = query ? findGouvernorat(query) : undefined;
+          if (typed) onChange(typed.value);
+          setQuery("");
+          setOpen(false);
+          onBlur?.();
+        }}
+      />
+
+      <div className="pointer-events-none absolute inset-y-0 end-2 flex items-center gap-1 text-muted-foreground">
+        {clearable && value ? (
+          <button
+            type="button"
+            className="pointer-events-auto cursor-pointer rounded-sm p-0.5 hover:text-foreground"
+            aria-label={t("gouvernorat.clear")}
+            // Keep focus in the input so the blur handler does not run first.
+            onMouseDown={(e) => e.preventDefault()}
+            onClick={() => select("")}
+          >
+            <XIcon className="size-3.5" />
+          </button>
+        ) : null}
+        <ChevronDownIcon className="size-4" />
+      </div>
+
+      {open ? (
+        <ul
+          ref={listRef}
+          id={listboxId}
+          role="listbox"
+          className="absolute z-50 mt-1 max-h-60 w-full overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+        >
+          {options.length === 0 ? (
+            <li className="px-2 py-1.5 text-sm text-muted-foreground">
+              {t("gouvernorat.noResults")}
+            </li>
+          ) : (
+            options.map((g, index) => (
+              <li
+                key={g.value}
+                id={`${listboxId}-${index}`}
+                data-index={index}
+                role="option"
+                aria-selected={g.value === selected?.value}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-2 rounded-sm px-2 py-1.5 text-sm",
+                  index === activeIndex && "bg-accent text-accent-foreground"
+                )}
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setActiveIndex(index)}
+                onClick={() => select(g.value)}
+              >
+                <span>{getGouvernoratLabel(g, locale)}</span>
+                <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                  {locale === "ar" ? g.fr : g.ar}
+                  {g.value === selected?.value ? (
+                    <CheckIcon className="size-3.5 text-foreground" />
+                  ) : null}
+                </span>
+              </li>
+            ))
+          )}
+        </ul>
+      ) : null}
+    </div>
+  );
+}
@@ -12,7 +12,12 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useI18n } from "@/i18n/I18nProvider";
-import { LOCALE_COOKIE_NAME, type Locale } from "@/i18n/i18n";
+import {
+  LOCALE_COOKIE_MAX_AGE,
+  LOCALE_COOKIE_NAME,
+  LOCALE_QUERY_PARAM,
+  type Locale,
+} from "@/i18n/i18n";
 import { cn } from "@/lib/utils";
 
 export function LocaleSwitcher({ className }: { className?: string }) {
@@ -22,9 +27,16 @@ export function LocaleSwitcher({ className }: { className?: string }) {
   const isRtl = locale === "ar";
 
   function setLocale(nextLocale: Locale) {
-    const maxAge = 60 * 60 * 24 * 365; // 1 year
-    document.cookie = `${LOCALE_COOKIE_NAME}=${nextLocale}; Path=/; Max-Age=${maxAge}; SameSite=Lax`;
-    router.refresh();
+    document.cookie = `${LOCALE_COOKIE_NAME}=${nextLocale}; Path=/; Max-Age=${LOCALE_COOKIE_MAX_AGE}; SameSite=Lax`;
+
+    // A `?lang=` left in the URL would win over the cookie on the next render.
+    const url = new URL(window.location.href);
+    if (url.searchParams.has(LOCALE_QUERY_PARAM)) {
+      url.searchParams.delete(LOCALE_QUERY_PARAM);
+      router.replace(`${url.pathname}${url.search}${url.hash}`);
+    } else {
+      router.refresh();
+    }
   }
 
   return (
@@ -40,6 +52,7 @@ export function LocaleSwitcher({ className }: { className?: string }) {
         <SelectContent align={isRtl ? "start" : "end"}>
           <SelectItem value="fr">{t("i18n.fr")}</SelectItem>
           <SelectItem value="ar">{t("i18n.ar")}</SelectItem>
+          <SelectItem value="en">{t("i18n.en")}</SelectItem>
         </SelectContent>
       </Select>
     </div>
@@ -5,7 +5,8 @@ import { toast, type ToastOptions } from 'react-toastify';
 
 import { Button } from '@/components/ui/button';
 import { useI18n } from '@/i18n/I18nProvider';
-import { ApiClientError } from '@/lib/api/client';
+import { getApiErrorMessage } from '@/i18n/labels';
+import { ApiClientError, SessionEndedError } from '@/lib/api/client';
 import { cn } from '@/lib/utils';
 
 function ToastContent({
@@ -89,16 +90,6 @@ function RequestIdAction({
   );
 }
 
-function getFriendlyMessageFromCode(
-  t: (k: string, vars?: Record<string, string | number>) => string,
-  code: string,
-  fallback: string,
-) {
-  const key = `apiError.${code}`;
-  const translated = t(key);
-  return translated === key ? fallback : translated;
-}
-
 export function useAppToast() {
   const { t } = useI18n();
 
@@ -126,6 +117,9 @@ export function useAppToast() {
 
   const showApiError = React.useCallback(
     (error: unknown, opts?: { title?: string }) => {
+      // The login page explains why the session ended.
+      if (error instanceof SessionEndedError) return;
+
       if (error instanceof ApiClientError) {
         // 429 UX
         if (error.status === 429) {
@@ -156,7 +150,7 @@ export function useAppToast() {
         const title =
           opts?.title ??
           (error.code === 'NOT_FOUND' ? t('public.result.notFoundTitle') : t('toast.error'));
-        const description = getFriendlyMessageFromCode(t, error.code, error.message);
+        const description = getApiErrorMessage(t, error.code, error.message);
 
         toast(
           <ToastContent
@@ -2,9 +2,27 @@
 
 import * as React from 'react';
 
-import type { Locale, Messages } from './i18n';
+import { formatMessage, type MessageVars } from './format';
+import {
+  getIntlLocale,
+  type Locale,
+  type MessageKey,
+  type MessageVarName,
+  type Messages,
+} from './i18n';
 
-export type TFunction = (key: string, vars?: Record<string, string | number>) => string;
+/**
+ * Keys are checked against `Messages`, and messages with `{placeholders}`
+ * require a value for each of them. Messages use the ICU subset documented in
+ * `./format` (plural, select, locale-aware numbers). For keys built at runtime
+ * from API data, use the helpers in `./labels` instead.
+ */
+export type TFunction = <K extends MessageKey>(
+  key: K,
+  ...vars: [MessageVarName<K>] extends [never]
+    ? [vars?: undefined]
+    : [vars: Record<MessageVarName<K>, string | number>]
+) => string;
 
 type I18nContextValue = {
   locale: Locale;
@@ -23,13 +41,6 @@ function getByPath(obj: unknown, path: string): unknown {
   }, obj);
 }
 
-function interpolate(template: string, vars?: Record<string, string | number>): string {
-  if (!vars) return template;
-  return Object.entries(vars).reduce((acc, [k, v]) => {
-    return acc.replaceAll(`{${k}}`, String(v));
-  }, template);
-}
-
 export function I18nProvider({
   locale,
   messages,
@@ -39,16 +50,19 @@ export function I18nProvider({
   messages: Messages;
   children: React.ReactNode;
 }) {
-  const t = React.useCallback<TFunction>(
-    (key, vars) => {
+  const t = React.useCallback(
+    (key: string, vars?: MessageVars) => {
       const value = getByPath(messages, key);
       if (typeof value !== 'string') return key;
-      return interpolate(value, vars);
+      return formatMessage(value, vars, getIntlLocale(locale));
     },
-    [messages],
-  );
+    [locale, messages],
+  ) as TFunction;
 
-  const ctx = React.useMemo<I18nContextValue>(() => ({ locale, messages, t }), [locale, messages, t]);
+  const ctx = React.useMemo<I18nContextValue>(
+    () => ({ locale, messages, t }),
+    [locale, messages, t],
+  );
 
   return <I18nContext.Provider value={ctx}>{children}</I18nContext.Provider>;
 }
@@ -60,5 +74,3 @@ export function useI18n(): I18nContextValue {
   }
   return ctx;
 }
-
-
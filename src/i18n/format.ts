@@ -0,0 +1,117 @@
+/**
+ * Minimal ICU MessageFormat subset used by the dictionaries:
+ *
+ * - `{name}` — interpolation; numbers are formatted for the locale.
+ * - `{name, number}` — same, explicit.
+ * - `{name, plural, =0 {…} one {…} other {…}}` — `Intl.PluralRules`
+ *   categories (zero, one, two, few, many, other) and exact `=n` matches;
+ *   `#` inside a branch is the formatted number.
+ * - `{name, select, a {…} other {…}}` — choice on a string value.
+ *
+ * Unknown or missing arguments are left as written so gaps stay visible.
+ */
+
+export type MessageVars = Record<string, string | number>;
+
+type Formatters = {
+  number: Intl.NumberFormat;
+  plural: Intl.PluralRules;
+};
+
+const formattersByLocale = new Map<string, Formatters>();
+
+function getFormatters(intlLocale: string): Formatters {
+  let formatters = formattersByLocale.get(intlLocale);
+  if (!formatters) {
+    formatters = {
+      number: new Intl.NumberFormat(intlLocale),
+      plural: new Intl.PluralRules(intlLocale),
+    };
+    formattersByLocale.set(intlLocale, formatters);
+  }
+  return formatters;
+}
+
+// Index of the `}` closing the `{` at `start`, or -1.
+function findClosingBrace(text: string, start: number): number {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}" && --depth === 0) return i;
+  }
+  return -1;
+}
+
+// "=0 {none} one {# item} other {# items}" -> { "=0": "none", ... }
+function parseBranches(options: string): Map<string, string> {
+  const branches = new Map<string, string>();
+  let i = 0;
+  while (i < options.length) {
+    const open = options.indexOf("{", i);
+    if (open === -1) break;
+    const close = findClosingBrace(options, open);
+    if (close === -1) break;
+    const selector = options.slice(i, open).trim();
+    if (selector) branches.set(selector, options.slice(open + 1, close));
+    i = close + 1;
+  }
+  return branches;
+}
+
+export function formatMessage(
+  template: string,
+  vars: MessageVars | undefined,
+  intlLocale: string
+): string {
+  const { number, plural } = getFormatters(intlLocale);
+
+  const formatValue = (value: string | number) =>
+    typeof value === "number" ? number.format(value) : value;
+
+  function renderArgument(body: string, hash: string | undefined): string {
+    const [rawName, rawType, ...rest] = body.split(",");
+    const name = rawName.trim();
+    const type = rawType?.trim();
+    const value = vars?.[name];
+    if (value === undefined) return `{${body}}`;
+
+    if (!type || type === "number") return formatValue(value);
+
+    const branches = parseBranches(rest.join(","));
+    if (type === "plural") {
+      const n = Number(value);
+      const branch =
+        branches.get(`=${n}`) ??
+        branches.get(plural.select(n)) ??
+        branches.get("other");
+      return branch === undefined
+        ? `{${body}}`
+        : render(branch, number.format(n));
+    }
+    if (type === "select") {
+      const branch = branches.get(String(value)) ?? branches.get("other");
+      return branch === undefined ? `{${body}}` : render(branch, hash);
+    }
+    return `{${body}}`;
+  }
+
+  function render(text: string, hash?: string): string {
+    let out = "";
+    let i = 0;
+    while (i < text.length) {
+      const ch = text[i];
+      if (ch === "{") {
+        const close = findClosingBrace(text, i);
+        if (close === -1) return out + text.slice(i);
+        out += renderArgument(text.slice(i + 1, close), hash);
+        i = close + 1;
+      } else {
+        out += ch === "#" && hash !== undefined ? hash : ch;
+        i++;
+      }
+    }
+    return out;
+  }
+
+  return render(template);
+}
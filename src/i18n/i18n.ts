@@ -1,29 +1,144 @@
 import { arMessages } from "./messages/ar";
+import { enMessages } from "./messages/en";
 import { frMessages } from "./messages/fr";
 
-export type Locale = "fr" | "ar";
-export const LOCALES = ["fr", "ar"] as const satisfies readonly Locale[];
+export type Locale = "fr" | "ar" | "en";
+export const LOCALES = ["fr", "ar", "en"] as const satisfies readonly Locale[];
 export const DEFAULT_LOCALE: Locale = "fr";
 
-export type Messages = typeof frMessages;
+type WidenMessages<T> = {
+  [K in keyof T]: T[K] extends string ? string : WidenMessages<T[K]>;
+};
+
+/** Shape every dictionary must have; French is the source of truth. */
+export type Messages = WidenMessages<typeof frMessages>;
+
+type LeafPaths<T, Prefix extends string = ""> = {
+  [K in keyof T & string]: T[K] extends string
+    ? `${Prefix}${K}`
+    : LeafPaths<T[K], `${Prefix}${K}.`>;
+}[keyof T & string];
+
+/** Dot-path of a translated string, e.g. "admin.dashboard.page". */
+export type MessageKey = LeafPaths<Messages>;
+
+type PathValue<T, P extends string> = P extends `${infer Head}.${infer Rest}`
+  ? Head extends keyof T
+    ? PathValue<T[Head], Rest>
+    : never
+  : P extends keyof T
+    ? T[P]
+    : never;
+
+type Trim<S extends string> = S extends ` ${infer T}` | `${infer T} `
+  ? Trim<T>
+  : S;
+
+// "count, plural, one {# x" -> "count"
+type ArgumentName<S extends string> = S extends `${infer Body}}${string}`
+  ? Trim<Body extends `${infer Name},${string}` ? Name : Body>
+  : never;
+
+/**
+ * Names of the top-level `{arguments}` of an ICU message. Braces are tracked
+ * one character at a time so plural/select branches are not mistaken for
+ * arguments; arguments nested inside a branch are not extracted, so messages
+ * should only reference variables there that also appear at the top level.
+ */
+type Placeholders<
+  S extends string,
+  Depth extends unknown[] = [],
+  Names = never,
+> = S extends `${infer C}${infer Rest}`
+  ? C extends "{"
+    ? Placeholders<
+        Rest,
+        [...Depth, unknown],
+        Depth extends [] ? Names | ArgumentName<Rest> : Names
+      >
+    : C extends "}"
+      ? Placeholders<Rest, Depth extends [unknown, ...infer D] ? D : [], Names>
+      : Placeholders<Rest, Depth, Names>
+  : Names;
+
+/** `{name}` arguments of a message, read from the French source text. */
+export type MessageVarName<K extends MessageKey> =
+  PathValue<typeof frMessages, K> extends infer S extends string
+    ? Placeholders<S>
+    : never;
 
 const messagesByLocale: Record<Locale, Messages> = {
   fr: frMessages,
   ar: arMessages,
+  en: enMessages,
 };
 
 export const LOCALE_COOKIE_NAME = "locale";
+export const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+
+/** `?lang=ar` on any page switches (and remembers) the locale. */
+export const LOCALE_QUERY_PARAM = "lang";
 
 export function isLocale(value: string): value is Locale {
   return (LOCALES as readonly string[]).includes(value);
 }
 
+/**
+ * Best supported locale for an `Accept-Language` header, honouring quality
+ * values and falling back from regional tags ("ar-TN") to the language.
+ * `null` when nothing matches.
+ */
+export function negotiateLocale(
+  acceptLanguage: string | null | undefined
+): Locale | null {
+  if (!acceptLanguage) return null;
+
+  const ranges = acceptLanguage
+    .split(",")
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(";");
+      const q = params.map((p) => p.trim()).find((p) => p.startsWith("q="));
+      const quality = q ? Number(q.slice(2)) : 1;
+      return {
+        tag: tag.trim().toLowerCase(),
+        quality: Number.isFinite(quality) ? quality : 0,
+        index,
+      };
+    })
+    .filter((range) => range.tag && range.quality > 0)
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const { tag } of ranges) {
+    if (tag === "*") return DEFAULT_LOCALE;
+    const language = tag.split("-")[0];
+    if (isLocale(language)) return language;
+  }
+  return null;
+}
+
+const RTL_LOCALES: readonly Locale[] = ["ar"];
+
 export function getLocaleDir(locale: Locale): "ltr" | "rtl" {
-  return locale === "ar" ? "rtl" : "ltr";
+  return RTL_LOCALES.includes(locale) ? "rtl" : "ltr";
 }
 
+const intlLocales: Record<Locale, string> = {
+  fr: "fr-FR",
+  ar: "ar-TN",
+  en: "en-GB",
+};
+
 export function getIntlLocale(locale: Locale): string {
-  return locale === "ar" ? "ar-TN" : "fr-FR";
+  return intlLocales[locale];
+}
+
+export function formatDateTime(iso: string, intlLocale: string): string {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return new Intl.DateTimeFormat(intlLocale, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  }).format(d);
 }
 
 export function getMessages(locale: Locale): Messages {
@@ -0,0 +1,26 @@
+import type { TFunction } from "./I18nProvider";
+import { frMessages } from "./messages/fr";
+import { isCardRequestStatus } from "@/lib/status-lifecycle";
+
+// Lookups keyed by values coming from the API: the key may not exist in the
+// dictionaries, so each helper checks it first and falls back explicitly.
+
+/** Localized label of a card request status; unknown statuses are shown raw. */
+export function getStatusLabel(t: TFunction, status: string): string {
+  return isCardRequestStatus(status) ? t(`status.${status}`) : status;
+}
+
+type ApiErrorCode = keyof typeof frMessages.apiError;
+
+function isApiErrorCode(code: string): code is ApiErrorCode {
+  return Object.hasOwn(frMessages.apiError, code);
+}
+
+/** Friendly message for a backend error code, or `fallback` if unknown. */
+export function getApiErrorMessage(
+  t: TFunction,
+  code: string,
+  fallback: string
+): string {
+  return isApiErrorCode(code) ? t(`apiError.${code}`) : fallback;
+}
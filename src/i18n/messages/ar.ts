@@ -6,12 +6,20 @@ export const arMessages = {
   nav: {
     public: "التتبّع",
     admin: "الإدارة",
+    requests: "الطلبات",
+    stats: "الإحصائيات",
+    users: "المستخدمون",
     logout: "تسجيل الخروج",
   },
   i18n: {
     language: "اللغة",
     fr: "الفرنسية",
     ar: "العربية",
+    en: "الإنجليزية",
+  },
+  gouvernorat: {
+    clear: "مسح الولاية",
+    noResults: "لم يتم العثور على أي ولاية",
   },
   common: {
     loading: "جارٍ التحميل…",
@@ -27,7 +35,6 @@ export const arMessages = {
     optional: "اختياري",
     yes: "نعم",
     no: "لا",
-    total: "الإجمالي",
   },
   public: {
     title: "تتبّع تصنيع البطاقة",
@@ -46,8 +53,10 @@ export const arMessages = {
         prenom: "مثال: John",
         cin: "8 أرقام",
         codePostal: "4 أرقام",
-        gouvernorat: "مثال: تونس",
+        gouvernorat: "اختر أو اكتب اسم الولاية",
       },
+      codePostalMismatch:
+        "يبدو أن هذا الترقيم البريدي لا ينتمي إلى الولاية المختارة. تحقّق من الحقلين.",
       validation: {
         nomRequired: "يرجى إدخال اللقب.",
         nomTooLong: "اللقب طويل جداً.",
@@ -62,6 +71,7 @@ export const arMessages = {
     timeline: {
       active: "قيد التقدّم",
       done: "مكتمل",
+      reachedAt: "في {date}",
     },
     result: {
       title: "حالة بطاقتك",
@@ -90,10 +100,180 @@ export const arMessages = {
         passwordMin: "يجب أن تتكوّن كلمة المرور من 8 أحرف على الأقل.",
       },
       successToast: "تم تسجيل الدخول بنجاح.",
+      reason: {
+        idle: "تم تسجيل خروجك بعد فترة من عدم النشاط.",
+        expired: "انتهت صلاحية الجلسة. يرجى تسجيل الدخول مرة أخرى.",
+        revoked: "تم إغلاق جميع جلساتك. يرجى تسجيل الدخول مرة أخرى.",
+      },
+      attemptsLeft:
+        "{count, plural, =0 {هذه آخر محاولة قبل قفل الحساب.} one {تبقّت محاولة واحدة قبل قفل الحساب.} two {تبقّت محاولتان قبل قفل الحساب.} few {تبقّت # محاولات قبل قفل الحساب.} many {تبقّت # محاولةً قبل قفل الحساب.} other {تبقّت # محاولة قبل قفل الحساب.}}",
+      retryIn:
+        "{seconds, plural, one {أعد المحاولة بعد ثانية واحدة} two {أعد المحاولة بعد ثانيتين} few {أعد المحاولة بعد # ثوانٍ} many {أعد المحاولة بعد # ثانيةً} other {أعد المحاولة بعد # ثانية}}",
+      locked: {
+        title: "الحساب مقفل",
+        desc: "فشلت محاولات تسجيل دخول كثيرة. اتصل بمشرفك لفتح الحساب.",
+      },
+      mfa: {
+        title: "التحقق بخطوتين",
+        codeDesc: "أدخل الرمز المكوّن من 6 أرقام الظاهر في تطبيق المصادقة.",
+        recoveryDesc: "أدخل أحد رموز الاسترداد التي حفظتها عند التفعيل.",
+        code: "رمز التحقق",
+        recoveryCode: "رمز الاسترداد",
+        submit: "تحقق",
+        back: "رجوع",
+        useRecovery: "استعمال رمز استرداد",
+        useCode: "استعمال التطبيق",
+        validation: {
+          codeInvalid: "يتكوّن الرمز من 6 أرقام.",
+          codeRejected: "رمز غير صحيح أو منتهي الصلاحية.",
+          recoveryRequired: "رمز الاسترداد مطلوب.",
+          recoveryRejected: "رمز استرداد غير صالح أو مستعمل.",
+        },
+      },
     },
     logout: {
       successToast: "تم تسجيل الخروج.",
     },
+    roles: {
+      VIEWER: "مطّلع",
+      AGENT: "عون",
+      SUPERVISOR: "مشرف",
+      ADMIN: "مدير",
+    },
+    permissions: {
+      readOnly: "لا يسمح دورك بتعديل هذا الطلب.",
+    },
+    passwordStrength: {
+      label: "القوة: {strength}",
+      tooShort: "قصيرة جدًا",
+      weak: "ضعيفة",
+      fair: "متوسطة",
+      good: "جيدة",
+      strong: "قوية",
+    },
+    account: {
+      title: "حسابي",
+      subtitle: "كلمة المرور والجلسات المفتوحة.",
+      password: {
+        title: "كلمة المرور",
+        desc: "غيّرها فور اشتباهك في تسرّبها.",
+        current: "كلمة المرور الحالية",
+        new: "كلمة المرور الجديدة",
+        submit: "تغيير كلمة المرور",
+        currentRequired: "كلمة المرور الحالية مطلوبة.",
+        wrongCurrent: "كلمة المرور الحالية غير صحيحة.",
+        sameAsCurrent: "يجب أن تختلف كلمة المرور الجديدة عن الحالية.",
+        changedToast: "تم تغيير كلمة المرور.",
+      },
+      mfa: {
+        title: "التحقق بخطوتين",
+        desc: "يُطلب رمز من هاتفك عند كل تسجيل دخول، إضافة إلى كلمة المرور.",
+        off: "التحقق بخطوتين غير مفعّل.",
+        enable: "تفعيل",
+        enabled: "مفعّل",
+        scan: "امسح رمز QR هذا بتطبيق المصادقة (Google Authenticator أو Microsoft Authenticator أو FreeOTP…).",
+        qrAlt: "رمز QR للإعداد",
+        manualKey: "أو أدخل هذا المفتاح يدويًا:",
+        copyKey: "نسخ المفتاح",
+        confirmDesc: "ثم أدخل الرمز الظاهر لتأكيد التفعيل.",
+        confirm: "تأكيد",
+        enabledToast: "تم تفعيل التحقق بخطوتين.",
+        recoveryTitle: "رموز الاسترداد",
+        recoveryDesc:
+          "احفظها في مكان آمن: يتيح كل رمز تسجيل الدخول مرة واحدة دون هاتفك. لن تُعرض مرة أخرى.",
+        copyCodes: "نسخ الرموز",
+        savedCodes: "لقد حفظتها",
+        copied: "تم النسخ إلى الحافظة.",
+        copyFailed: "تعذّر النسخ إلى الحافظة.",
+        recoveryRemaining:
+          "{count, plural, =0 {لم يتبقَّ أي رمز استرداد} one {تبقّى رمز استرداد واحد} two {تبقّى رمزا استرداد} few {تبقّت # رموز استرداد} many {تبقّى # رمزًا للاسترداد} other {تبقّى # رمز استرداد}}",
+        disableDesc: "لإلغاء التفعيل، أدخل رمزًا من تطبيقك.",
+        disable: "إلغاء التفعيل",
+        disabledToast: "تم إلغاء التحقق بخطوتين.",
+      },
+      sessions: {
+        title: "الجلسات النشطة",
+        desc: "المتصفحات والأجهزة المتصلة بحسابك.",
+        refresh: "تحديث",
+        empty: "لا توجد جلسات نشطة.",
+        current: "هذا الجهاز",
+        unknownDevice: "جهاز غير معروف",
+        details: "IP {ip} · آخر نشاط {lastUsedAt}",
+        revoke: "إغلاق",
+        revokeTitle: "إغلاق هذه الجلسة؟",
+        revokeDesc: "سيتعيّن على ذلك الجهاز تسجيل الدخول من جديد.",
+        revokedToast: "تم إغلاق الجلسة.",
+        revokeAll: "تسجيل الخروج من كل الأجهزة",
+        revokeAllTitle: "تسجيل الخروج من كل الأجهزة؟",
+        revokeAllDesc: "سيتم إغلاق جميع جلساتك، بما فيها هذه الجلسة.",
+      },
+    },
+    users: {
+      title: "المستخدمون",
+      subtitle: "حسابات الإدارة والأدوار والصلاحيات.",
+      create: "مستخدم جديد",
+      refresh: "تحديث",
+      empty: "لا يوجد مستخدمون.",
+      you: "أنت",
+      columns: {
+        username: "اسم المستخدم",
+        role: "الدور",
+        gouvernorats: "الولايات",
+        status: "الحالة",
+        lastLoginAt: "آخر دخول",
+        actions: "إجراءات",
+      },
+      allGouvernorats: "الكل",
+      never: "أبدًا",
+      active: "نشط",
+      disabled: "معطّل",
+      actions: {
+        changeRole: "تغيير الدور",
+        resetPassword: "إعادة تعيين كلمة المرور",
+        disable: "تعطيل",
+        enable: "إعادة التفعيل",
+      },
+      field: {
+        username: "اسم المستخدم",
+        password: "كلمة المرور",
+        confirmPassword: "تأكيد كلمة المرور",
+        role: "الدور",
+        gouvernorats: "الولايات",
+      },
+      gouvernoratsHint: "لا يرى العون إلا طلبات هذه الولايات.",
+      validation: {
+        usernameInvalid:
+          "من 3 إلى 50 حرفًا: حروف أو أرقام أو نقطة أو شرطة أو شرطة سفلية.",
+        passwordMismatch: "كلمتا المرور غير متطابقتين.",
+        gouvernoratsRequired: "اختر ولاية واحدة على الأقل.",
+      },
+      createTitle: "مستخدم جديد",
+      createDesc: "يمكن للحساب تسجيل الدخول فور إنشائه.",
+      createSubmit: "إنشاء",
+      createdToast: "تم إنشاء المستخدم {username}.",
+      roleTitle: "تغيير الدور",
+      roleDesc: "دور وولايات {username}.",
+      roleSubmit: "حفظ",
+      roleUpdatedToast: "تم تحديث دور {username}.",
+      passwordTitle: "إعادة تعيين كلمة المرور",
+      passwordDesc:
+        "يعيّن كلمة مرور جديدة لـ {username}. أبلغه بها بطريقة آمنة.",
+      passwordSubmit: "إعادة التعيين",
+      passwordResetToast: "تمت إعادة تعيين كلمة مرور {username}.",
+      disableTitle: "تعطيل المستخدم؟",
+      disableDesc: "لن يتمكن {username} من تسجيل الدخول بعد الآن.",
+      disabledToast: "تم تعطيل {username}.",
+      enableTitle: "إعادة تفعيل المستخدم؟",
+      enableDesc: "سيتمكن {username} من تسجيل الدخول مجددًا.",
+      enabledToast: "تمت إعادة تفعيل {username}.",
+      forbidden: "لا يسمح دورك بإدارة المستخدمين.",
+    },
+    idle: {
+      title: "هل ما زلت هنا؟",
+      description:
+        "لأسباب أمنية، سيتم تسجيل خروجك بعد {seconds, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} other {# ثانية}} بسبب عدم النشاط.",
+      stay: "البقاء متصلاً",
+    },
     dashboard: {
       title: "الطلبات / البطاقات",
       subtitle: "اطّلع على الحالات وقم بتحديثها.",
@@ -110,6 +290,15 @@ export const arMessages = {
       },
       sortDirAria: "تغيير الترتيب",
       statusAll: "الكل",
+      genreAll: "الكل",
+      columnsToggle: "الأعمدة",
+      copyLink: "نسخ الرابط",
+      linkCopied: "تم نسخ رابط هذا العرض.",
+      linkCopyFailed: "تعذّر نسخ الرابط.",
+      genre: {
+        M: "ذكر",
+        F: "أنثى",
+      },
       pagination: {
         prev: "السابق",
         next: "التالي",
@@ -121,6 +310,9 @@ export const arMessages = {
         gouvernorat: "الولاية",
         status: "الحالة",
         updatedAt: "آخر تحديث",
+        genre: "الجنس",
+        institut: "المؤسسة الجامعية",
+        diplome: "الشهادة",
         actions: "إجراءات",
       },
       field: {
@@ -129,12 +321,121 @@ export const arMessages = {
         cin: "CIN",
         status: "الحالة",
         gouvernorat: "الولاية",
-        gouvernoratPlaceholder: "مثال: تونس",
+        gouvernoratPlaceholder: "كل الولايات",
+        institut: "المؤسسة الجامعية",
+        diplome: "الشهادة",
+        genre: "الجنس",
+        dateFrom: "أُنشئت من",
+        dateTo: "أُنشئت إلى",
         sortBy: "الترتيب حسب",
         pageSize: "عدد العناصر",
       },
       actionUpdate: "تحديث",
       page: "الصفحة {page} من {pages}",
+      totalCount:
+        "{total, plural, one {طلب واحد} two {طلبان} few {# طلبات} many {# طلبًا} other {# طلب}} إجمالًا",
+    },
+    stats: {
+      title: "الإحصائيات",
+      subtitle: "نظرة عامة على الطلبات. انقر على جزء لفتح القائمة المصفّاة.",
+      refresh: "تحديث",
+      empty: "لا توجد بيانات في هذه الفترة.",
+      loadError: "تعذّر تحميل الإحصائيات.",
+      retry: "إعادة المحاولة",
+      byStatus: "الطلبات حسب الحالة",
+      byGouvernorat: "الطلبات حسب الولاية",
+      weekly: "المُنشأة مقابل المُسلَّمة (آخر {weeks} أسابيع)",
+      created: "المُنشأة",
+      delivered: "المُسلَّمة",
+      weekCreated: "أسبوع {week}: {count} مُنشأة",
+      weekDelivered: "أسبوع {week}: {count} مُسلَّمة",
+      ageing: "المدة في الحالة الحالية",
+      buckets: {
+        "0-7": "0–7 أيام",
+        "8-14": "8–14 يومًا",
+        "15-30": "15–30 يومًا",
+        "31+": "أكثر من 30 يومًا",
+      },
+    },
+    bulk: {
+      selectedCount:
+        "{count, plural, one {طلب واحد محدّد} two {طلبان محدّدان} few {# طلبات محدّدة} many {# طلبًا محدّدًا} other {# طلب محدّد}}",
+      selectPage: "تحديد الصفحة",
+      selectRow: "تحديد الطلب {id}",
+      selectAllMatching: "تحديد كل النتائج ({total})",
+      clearSelection: "إلغاء التحديد",
+      hiddenCount: "{count} في صفحات أخرى",
+      selecting: "جارٍ التحديد… {loaded} / {total}",
+      action: "تحديث جماعي",
+      title: "تحديث جماعي",
+      description:
+        "سيُطبَّق التعديل على {count, plural, one {طلب واحد} two {طلبين} few {# طلبات} many {# طلبًا} other {# طلب}}.",
+      apply:
+        "تطبيق على {count, plural, one {طلب واحد} two {طلبين} few {# طلبات} many {# طلبًا} other {# طلب}}",
+      progress: "تمت معالجة {done} / {total}",
+      summary: "{succeeded} ناجح، {failed} فاشل",
+      failuresTitle: "الطلبات الفاشلة",
+      stop: "إيقاف",
+      retryFailed: "إعادة محاولة {count} فاشل",
+      successToast:
+        "تم تحديث {count, plural, one {طلب واحد} two {طلبين} few {# طلبات} many {# طلبًا} other {# طلب}}.",
+    },
+    export: {
+      action: "تصدير",
+      csv: "CSV (Excel)",
+      xlsx: "ملف XLSX",
+      progress: "{loaded} / {total} سطر",
+      successToast:
+        "تم تصدير {count, plural, one {سطر واحد} two {سطرين} few {# أسطر} many {# سطرًا} other {# سطر}}.",
+      columns: {
+        id: "المعرّف",
+        nom: "اللقب",
+        prenom: "الاسم",
+        cin: "CIN",
+        genre: "الجنس",
+        institut: "المؤسسة الجامعية",
+        diplome: "الشهادة",
+        gouvernorat: "الولاية",
+        codePostal: "الرمز البريدي",
+        status: "الحالة",
+        pickupEstablishment: "مؤسسة الاستلام",
+        pickupAddress: "عنوان الاستلام",
+        createdAt: "تاريخ الإنشاء",
+        updatedAt: "تاريخ التحديث",
+      },
+    },
+    detail: {
+      title: "تفاصيل الطلب",
+      identity: "الهوية",
+      request: "الطلب",
+      pickup: "نقطة الاستلام",
+      codePostal: "الرمز البريدي",
+      createdAt: "تاريخ الإنشاء",
+      updatedAt: "تاريخ التحديث",
+      copyId: "نسخ المعرّف",
+      copyCin: "نسخ رقم CIN",
+      tabs: {
+        details: "التفاصيل",
+        history: "السجل",
+      },
+    },
+    history: {
+      title: "سجل التعديلات",
+      refresh: "تحديث",
+      empty: "لا توجد تعديلات مسجلة.",
+      system: "النظام",
+      status: "الحالة:",
+      reason: "السبب",
+    },
+    conflict: {
+      title: "تم تعديل هذا الطلب في الأثناء",
+      description: "قام عون آخر بتحديثه في {date}. لم يتم حفظ تعديلك.",
+      status: "الحالة",
+      server: "القيمة الحالية",
+      mine: "تعديلك",
+      noChange: "دون تغيير",
+      reapply: "إعادة تطبيق تعديلي",
+      discard: "تجاهل",
     },
     updateStatus: {
       title: "تحديث الحالة",
@@ -148,8 +449,21 @@ export const arMessages = {
       newAddress: "العنوان الجديد",
       placeholderEstablishment: "مثال: مكتب بريد تونس المركز",
       placeholderAddress: "مثال: 12 شارع الحبيب بورقيبة، تونس",
+      finalStatusHint: "حالة نهائية: لا يمكن أي انتقال دون فرض.",
+      force: "فرض (خارج دورة الحياة)",
+      forceHint: "يسمح بحالة غير متوقعة في دورة الحياة. السبب إلزامي.",
+      reason: "سبب الفرض",
+      placeholderReason: "مثال: خطأ في الإدخال، تسليم البطاقة عن طريق الخطأ…",
+      forceConfirmTitle: "تأكيد الفرض؟",
+      forceConfirmDesc:
+        "هذا التحديث يتجاوز قواعد دورة الحياة وسيُسجَّل مع السبب المُدخل.",
+      forceConfirm: "فرض التحديث",
+      forceBack: "رجوع",
       validation: {
         atLeastOneField: "يرجى تعديل حقل واحد على الأقل.",
+        transitionNotAllowed: "هذا الانتقال بين الحالات غير مسموح به.",
+        pickupRequired: "إلزامي للانتقال إلى حالة «جاهزة».",
+        reasonRequired: "يرجى إدخال سبب (10 أحرف على الأقل).",
       },
       successToast: "تم التحديث بنجاح.",
     },
@@ -166,16 +480,22 @@ export const arMessages = {
     error: "خطأ",
     requestId: "معرّف الطلب",
     rateLimitedTitle: "محاولات كثيرة",
-    rateLimitedDesc: "يرجى إعادة المحاولة بعد {seconds} ث.",
+    rateLimitedDesc:
+      "يرجى إعادة المحاولة بعد {seconds, plural, one {ثانية واحدة} two {ثانيتين} few {# ثوانٍ} other {# ثانية}}.",
     statusFetched: "تم جلب الحالة.",
-    sessionExpired: "انتهت صلاحية الجلسة. يرجى تسجيل الدخول مرة أخرى.",
   },
   apiError: {
     INTERNAL_ERROR: "حدث خطأ. يرجى إعادة المحاولة.",
     NOT_FOUND: "لا يوجد طلب مطابق للمعلومات المدخلة.",
+    FORBIDDEN: "ليست لديك الصلاحيات اللازمة لهذا الإجراء.",
     INVALID_CREDENTIALS: "المعرّف أو كلمة المرور غير صحيحة.",
+    ACCOUNT_LOCKED: "تم قفل الحساب بعد محاولات كثيرة. اتصل بمشرفك.",
     MISSING_REFRESH_TOKEN: "الجلسة مفقودة. يرجى تسجيل الدخول من جديد.",
     INVALID_REFRESH_TOKEN: "جلسة غير صالحة. يرجى تسجيل الدخول من جديد.",
     REFRESH_TOKEN_EXPIRED: "انتهت صلاحية الجلسة. يرجى تسجيل الدخول من جديد.",
+    MFA_CHALLENGE_EXPIRED: "انتهت مهلة التحقق. يرجى إدخال كلمة المرور من جديد.",
+    INVALID_MFA_TOKEN: "انتهت مهلة التحقق. يرجى إدخال كلمة المرور من جديد.",
+    INVALID_RESPONSE:
+      "استجابة غير متوقعة من الخادم. يرجى إعادة المحاولة أو الاتصال بالدعم.",
   },
 };
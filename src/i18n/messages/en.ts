@@ -1,10 +1,509 @@
-import { frMessages } from './fr';
-
-/**
- * Placeholder English dictionary.
- * We keep French as the product language for now, but the structure is ready
- * for a full EN translation later.
- */
-export const enMessages = frMessages;
-
+import type { Messages } from "../i18n";
 
+export const enMessages: Messages = {
+  app: {
+    name: "La Poste — Card tracking",
+    description: "Check the production and pickup status of your card.",
+  },
+  nav: {
+    public: "Tracking",
+    admin: "Administration",
+    requests: "Requests",
+    stats: "Statistics",
+    users: "Users",
+    logout: "Sign out",
+  },
+  i18n: {
+    language: "Language",
+    fr: "Français",
+    ar: "العربية",
+    en: "English",
+  },
+  gouvernorat: {
+    clear: "Clear governorate",
+    noResults: "No governorate found",
+  },
+  common: {
+    loading: "Loading…",
+    search: "Search",
+    save: "Save",
+    cancel: "Cancel",
+    close: "Close",
+    copy: "Copy",
+    copied: "Copied",
+    details: "Details",
+    hide: "Hide",
+    required: "Required",
+    optional: "Optional",
+    yes: "Yes",
+    no: "No",
+  },
+  public: {
+    title: "Card production tracking",
+    subtitle: "Enter your details to check the status of your card.",
+    hint: "Your details are only used to find your request.",
+    form: {
+      nom: "Last name",
+      prenom: "First name",
+      cin: "CIN (national ID)",
+      codePostal: "Postal code",
+      gouvernorat: "Governorate",
+      submit: "Check status",
+      reset: "Reset",
+      placeholder: {
+        nom: "e.g. Doe",
+        prenom: "e.g. John",
+        cin: "8 digits",
+        codePostal: "4 digits",
+        gouvernorat: "Choose or type a governorate",
+      },
+      codePostalMismatch:
+        "This postal code does not seem to belong to the selected governorate. Please check both fields.",
+      validation: {
+        nomRequired: "Please enter your last name.",
+        nomTooLong: "Last name is too long.",
+        prenomRequired: "Please enter your first name.",
+        prenomTooLong: "First name is too long.",
+        cinInvalid: "The CIN must be 8 digits.",
+        codePostalInvalid: "The postal code must be 4 digits.",
+        gouvernoratRequired: "Please enter your governorate.",
+        gouvernoratTooLong: "Governorate is too long.",
+      },
+    },
+    timeline: {
+      active: "Current",
+      done: "Done",
+      reachedAt: "on {date}",
+    },
+    result: {
+      title: "Your card status",
+      updatedAt: "Last updated",
+      pickup: "Pickup point",
+      pickupEstablishment: "Establishment",
+      pickupAddress: "Address",
+      placeholderTitle: "No result yet",
+      placeholderDesc: "Fill in the form, then click “Check status”.",
+      notFoundTitle: "No request found",
+      notFoundDesc:
+        "Check the details you entered (last name, first name, CIN, postal code, governorate) and try again.",
+    },
+  },
+  admin: {
+    title: "Administration",
+    login: {
+      title: "Administrator sign-in",
+      username: "Username",
+      password: "Password",
+      showPassword: "Show password",
+      hidePassword: "Hide password",
+      submit: "Sign in",
+      validation: {
+        usernameRequired: "Please enter your username.",
+        passwordMin: "The password must be at least 8 characters.",
+      },
+      successToast: "Signed in.",
+      reason: {
+        idle: "You were signed out after a period of inactivity.",
+        expired: "Your session has expired. Please sign in again.",
+        revoked: "All your sessions were closed. Please sign in again.",
+      },
+      attemptsLeft:
+        "{count, plural, =0 {Last attempt before the account is locked.} one {# attempt left before the account is locked.} other {# attempts left before the account is locked.}}",
+      retryIn:
+        "{seconds, plural, one {Try again in # second} other {Try again in # seconds}}",
+      locked: {
+        title: "Account locked",
+        desc: "Too many failed sign-in attempts. Contact your supervisor to unlock the account.",
+      },
+      mfa: {
+        title: "Two-step verification",
+        codeDesc: "Enter the 6-digit code shown by your authenticator app.",
+        recoveryDesc:
+          "Enter one of the recovery codes you saved when turning it on.",
+        code: "Verification code",
+        recoveryCode: "Recovery code",
+        submit: "Verify",
+        back: "Back",
+        useRecovery: "Use a recovery code",
+        useCode: "Use the app",
+        validation: {
+          codeInvalid: "The code has 6 digits.",
+          codeRejected: "Wrong or expired code.",
+          recoveryRequired: "The recovery code is required.",
+          recoveryRejected: "Invalid or already used recovery code.",
+        },
+      },
+    },
+    logout: {
+      successToast: "Signed out.",
+    },
+    roles: {
+      VIEWER: "Viewer",
+      AGENT: "Agent",
+      SUPERVISOR: "Supervisor",
+      ADMIN: "Administrator",
+    },
+    permissions: {
+      readOnly: "Your role does not allow changes to this request.",
+    },
+    passwordStrength: {
+      label: "Strength: {strength}",
+      tooShort: "too short",
+      weak: "weak",
+      fair: "fair",
+      good: "good",
+      strong: "strong",
+    },
+    account: {
+      title: "My account",
+      subtitle: "Password and open sessions.",
+      password: {
+        title: "Password",
+        desc: "Change it as soon as you think it may have leaked.",
+        current: "Current password",
+        new: "New password",
+        submit: "Change password",
+        currentRequired: "The current password is required.",
+        wrongCurrent: "Current password is incorrect.",
+        sameAsCurrent: "The new password must differ from the current one.",
+        changedToast: "Password changed.",
+      },
+      mfa: {
+        title: "Two-step verification",
+        desc: "A code from your phone is asked at every sign-in, on top of the password.",
+        off: "Two-step verification is off.",
+        enable: "Turn on",
+        enabled: "On",
+        scan: "Scan this QR code with your authenticator app (Google Authenticator, Microsoft Authenticator, FreeOTP…).",
+        qrAlt: "Setup QR code",
+        manualKey: "Or enter this key manually:",
+        copyKey: "Copy key",
+        confirmDesc: "Then enter the code it shows to confirm.",
+        confirm: "Confirm",
+        enabledToast: "Two-step verification turned on.",
+        recoveryTitle: "Recovery codes",
+        recoveryDesc:
+          "Keep them somewhere safe: each one signs you in once without your phone. They will not be shown again.",
+        copyCodes: "Copy codes",
+        savedCodes: "I have saved them",
+        copied: "Copied to the clipboard.",
+        copyFailed: "Could not copy to the clipboard.",
+        recoveryRemaining:
+          "{count, plural, =0 {no recovery codes left} one {# recovery code left} other {# recovery codes left}}",
+        disableDesc: "To turn it off, enter a code from your app.",
+        disable: "Turn off",
+        disabledToast: "Two-step verification turned off.",
+      },
+      sessions: {
+        title: "Active sessions",
+        desc: "Browsers and devices signed in to your account.",
+        refresh: "Refresh",
+        empty: "No active sessions.",
+        current: "This device",
+        unknownDevice: "Unknown device",
+        details: "IP {ip} · last active {lastUsedAt}",
+        revoke: "Revoke",
+        revokeTitle: "Revoke this session?",
+        revokeDesc: "That device will have to sign in again.",
+        revokedToast: "Session revoked.",
+        revokeAll: "Sign out everywhere",
+        revokeAllTitle: "Sign out everywhere?",
+        revokeAllDesc: "All your sessions will be closed, including this one.",
+      },
+    },
+    users: {
+      title: "Users",
+      subtitle: "Admin accounts, roles and access.",
+      create: "New user",
+      refresh: "Refresh",
+      empty: "No users.",
+      you: "you",
+      columns: {
+        username: "Username",
+        role: "Role",
+        gouvernorats: "Governorates",
+        status: "Status",
+        lastLoginAt: "Last sign-in",
+        actions: "Actions",
+      },
+      allGouvernorats: "All",
+      never: "Never",
+      active: "Active",
+      disabled: "Disabled",
+      actions: {
+        changeRole: "Change role",
+        resetPassword: "Reset password",
+        disable: "Disable",
+        enable: "Enable",
+      },
+      field: {
+        username: "Username",
+        password: "Password",
+        confirmPassword: "Confirm password",
+        role: "Role",
+        gouvernorats: "Governorates",
+      },
+      gouvernoratsHint: "An agent only sees requests from these governorates.",
+      validation: {
+        usernameInvalid:
+          "3 to 50 characters: letters, digits, dot, hyphen or underscore.",
+        passwordMismatch: "Passwords do not match.",
+        gouvernoratsRequired: "Choose at least one governorate.",
+      },
+      createTitle: "New user",
+      createDesc: "The account can sign in as soon as it is created.",
+      createSubmit: "Create",
+      createdToast: "User {username} created.",
+      roleTitle: "Change role",
+      roleDesc: "Role and governorates of {username}.",
+      roleSubmit: "Save",
+      roleUpdatedToast: "Role of {username} updated.",
+      passwordTitle: "Reset password",
+      passwordDesc:
+        "Sets a new password for {username}. Share it through a safe channel.",
+      passwordSubmit: "Reset",
+      passwordResetToast: "Password of {username} reset.",
+      disableTitle: "Disable user?",
+      disableDesc: "{username} will no longer be able to sign in.",
+      disabledToast: "{username} has been disabled.",
+      enableTitle: "Enable user?",
+      enableDesc: "{username} will be able to sign in again.",
+      enabledToast: "{username} has been enabled.",
+      forbidden: "Your role does not allow managing users.",
+    },
+    idle: {
+      title: "Are you still there?",
+      description:
+        "For security, you will be signed out in {seconds, plural, one {# second} other {# seconds}} due to inactivity.",
+      stay: "Stay signed in",
+    },
+    dashboard: {
+      title: "Requests / Cards",
+      subtitle: "Review and update statuses.",
+      filters: "Filters",
+      resetFilters: "Reset",
+      applyFilters: "Apply",
+      empty: "Nothing to show",
+      sort: {
+        createdAt: "Created",
+        updatedAt: "Updated",
+        status: "Status",
+        gouvernorat: "Governorate",
+        cin: "CIN",
+      },
+      sortDirAria: "Change order",
+      statusAll: "All",
+      genreAll: "All",
+      columnsToggle: "Columns",
+      copyLink: "Copy link",
+      linkCopied: "Link to this view copied.",
+      linkCopyFailed: "Could not copy the link.",
+      genre: {
+        M: "Male",
+        F: "Female",
+      },
+      pagination: {
+        prev: "Previous",
+        next: "Next",
+      },
+      columns: {
+        id: "ID",
+        fullName: "Full name",
+        cin: "CIN",
+        gouvernorat: "Governorate",
+        status: "Status",
+        updatedAt: "Updated",
+        genre: "Gender",
+        institut: "Institute",
+        diplome: "Degree",
+        actions: "Actions",
+      },
+      field: {
+        nom: "Last name",
+        prenom: "First name",
+        cin: "CIN",
+        status: "Status",
+        gouvernorat: "Governorate",
+        gouvernoratPlaceholder: "All governorates",
+        institut: "Institute",
+        diplome: "Degree",
+        genre: "Gender",
+        dateFrom: "Created from",
+        dateTo: "Created to",
+        sortBy: "Sort by",
+        pageSize: "Page size",
+      },
+      actionUpdate: "Update",
+      page: "Page {page} of {pages}",
+      totalCount:
+        "{total, plural, one {# request} other {# requests}} in total",
+    },
+    stats: {
+      title: "Statistics",
+      subtitle:
+        "Overview of card requests. Click a segment to open the filtered list.",
+      refresh: "Refresh",
+      empty: "No data for this period.",
+      loadError: "Could not load the statistics.",
+      retry: "Retry",
+      byStatus: "Requests by status",
+      byGouvernorat: "Requests by governorate",
+      weekly: "Created vs delivered (last {weeks} weeks)",
+      created: "Created",
+      delivered: "Delivered",
+      weekCreated: "Week of {week}: {count} created",
+      weekDelivered: "Week of {week}: {count} delivered",
+      ageing: "Time in current status",
+      buckets: {
+        "0-7": "0–7 days",
+        "8-14": "8–14 days",
+        "15-30": "15–30 days",
+        "31+": "Over 30 days",
+      },
+    },
+    bulk: {
+      selectedCount: "{count} selected",
+      selectPage: "Select page",
+      selectRow: "Select request {id}",
+      selectAllMatching:
+        "{total, plural, one {Select the only result} other {Select all # results}}",
+      clearSelection: "Clear selection",
+      hiddenCount: "{count} on other pages",
+      selecting: "Selecting… {loaded} / {total}",
+      action: "Bulk update",
+      title: "Bulk update",
+      description:
+        "The change will be applied to {count, plural, one {# request} other {# requests}}.",
+      apply: "Apply to {count, plural, one {# request} other {# requests}}",
+      progress: "{done} / {total} processed",
+      summary: "{succeeded} succeeded, {failed} failed",
+      failuresTitle: "Failed requests",
+      stop: "Stop",
+      retryFailed: "Retry {count} failed",
+      successToast:
+        "{count, plural, one {# request} other {# requests}} updated.",
+    },
+    export: {
+      action: "Export",
+      csv: "CSV (Excel)",
+      xlsx: "XLSX workbook",
+      progress: "{loaded} / {total} rows",
+      successToast: "{count, plural, one {# row} other {# rows}} exported.",
+      columns: {
+        id: "ID",
+        nom: "Last name",
+        prenom: "First name",
+        cin: "CIN",
+        genre: "Gender",
+        institut: "Institute",
+        diplome: "Degree",
+        gouvernorat: "Governorate",
+        codePostal: "Postal code",
+        status: "Status",
+        pickupEstablishment: "Pickup establishment",
+        pickupAddress: "Pickup address",
+        createdAt: "Created at",
+        updatedAt: "Updated at",
+      },
+    },
+    detail: {
+      title: "Request details",
+      identity: "Identity",
+      request: "Request",
+      pickup: "Pickup point",
+      codePostal: "Postal code",
+      createdAt: "Created at",
+      updatedAt: "Updated at",
+      copyId: "Copy ID",
+      copyCin: "Copy CIN",
+      tabs: {
+        details: "Details",
+        history: "History",
+      },
+    },
+    history: {
+      title: "Change history",
+      refresh: "Refresh",
+      empty: "No changes recorded.",
+      system: "System",
+      status: "Status:",
+      reason: "Reason",
+    },
+    conflict: {
+      title: "This request was changed in the meantime",
+      description:
+        "Another agent updated it on {date}. Your change was not saved.",
+      status: "Status",
+      server: "Current value",
+      mine: "Your change",
+      noChange: "Unchanged",
+      reapply: "Reapply my change",
+      discard: "Discard",
+    },
+    updateStatus: {
+      title: "Update status",
+      selectRow: "Select a row.",
+      currentStatus: "Current status",
+      establishment: "Establishment",
+      address: "Address",
+      newStatus: "New status",
+      unchanged: "Leave unchanged",
+      newEstablishment: "New establishment",
+      newAddress: "New address",
+      placeholderEstablishment: "e.g. Tunis Centre post office",
+      placeholderAddress: "e.g. 12 Avenue Habib Bourguiba, Tunis",
+      finalStatusHint:
+        "Final status: no transition is possible without forcing.",
+      force: "Force (outside the lifecycle)",
+      forceHint:
+        "Allows a status the lifecycle does not permit. A reason is required.",
+      reason: "Reason for forcing",
+      placeholderReason: "e.g. Data entry mistake, card handed over by error…",
+      forceConfirmTitle: "Confirm forced update?",
+      forceConfirmDesc:
+        "This update bypasses the lifecycle rules and will be logged with the reason you entered.",
+      forceConfirm: "Force update",
+      forceBack: "Back",
+      validation: {
+        atLeastOneField: "Please change at least one field.",
+        transitionNotAllowed: "This status transition is not allowed.",
+        pickupRequired: "Required to move to the “Ready” status.",
+        reasonRequired: "Please give a reason (at least 10 characters).",
+      },
+      successToast: "Update saved.",
+    },
+  },
+  status: {
+    CREATED: "Created",
+    IN_PROGRESS: "In progress",
+    READY: "Ready",
+    DELIVERED: "Delivered",
+    CANCELLED: "Cancelled",
+  },
+  toast: {
+    success: "Success",
+    error: "Error",
+    requestId: "Request ID",
+    rateLimitedTitle: "Too many attempts",
+    rateLimitedDesc:
+      "Please try again in {seconds, plural, one {# second} other {# seconds}}.",
+    statusFetched: "Status retrieved.",
+  },
+  apiError: {
+    INTERNAL_ERROR: "Something went wrong. Please try again.",
+    NOT_FOUND: "No request matches the details you entered.",
+    FORBIDDEN: "You do not have permission to perform this action.",
+    INVALID_CREDENTIALS: "Incorrect username or password.",
+    ACCOUNT_LOCKED:
+      "Account locked after too many attempts. Contact your supervisor.",
+    MISSING_REFRESH_TOKEN: "Missing session. Please sign in again.",
+    INVALID_REFRESH_TOKEN: "Invalid session. Please sign in again.",
+    REFRESH_TOKEN_EXPIRED: "Session expired. Please sign in again.",
+    MFA_CHALLENGE_EXPIRED:
+      "The verification expired. Please enter your password again.",
+    INVALID_MFA_TOKEN:
+      "The verification expired. Please enter your password again.",
+    INVALID_RESPONSE:
+      "Unexpected response from the server. Please try again or contact support.",
+  },
+};
@@ -7,12 +7,20 @@ export const frMessages = {
   nav: {
     public: "Suivi",
     admin: "Administration",
+    requests: "Demandes",
+    stats: "Statistiques",
+    users: "Utilisateurs",
     logout: "Déconnexion",
   },
   i18n: {
     language: "Langue",
     fr: "Français",
     ar: "العربية",
+    en: "English",
+  },
+  gouvernorat: {
+    clear: "Effacer le gouvernorat",
+    noResults: "Aucun gouvernorat trouvé",
   },
   common: {
     loading: "Chargement…",
@@ -28,7 +36,6 @@ export const frMessages = {
     optional: "Optionnel",
     yes: "Oui",
     no: "Non",
-    total: "total",
   },
   public: {
     title: "Suivi de fabrication de carte",
@@ -48,8 +55,10 @@ export const frMessages = {
         prenom: "Ex: John",
         cin: "8 chiffres",
         codePostal: "4 chiffres",
-        gouvernorat: "Ex: Tunis",
+        gouvernorat: "Choisissez ou tapez un gouvernorat",
       },
+      codePostalMismatch:
+        "Ce code postal ne semble pas appartenir au gouvernorat choisi. Vérifiez les deux champs.",
       validation: {
         nomRequired: "Veuillez saisir votre nom.",
         nomTooLong: "Nom trop long.",
@@ -64,6 +73,7 @@ export const frMessages = {
     timeline: {
       active: "En cours",
       done: "Terminé",
+      reachedAt: "le {date}",
     },
     result: {
       title: "Statut de votre carte",
@@ -93,10 +103,188 @@ export const frMessages = {
         passwordMin: "Le mot de passe doit contenir au moins 8 caractères.",
       },
       successToast: "Connexion réussie.",
+      reason: {
+        idle: "Vous avez été déconnecté après une période d’inactivité.",
+        expired: "Votre session a expiré. Veuillez vous reconnecter.",
+        revoked:
+          "Toutes vos sessions ont été fermées. Veuillez vous reconnecter.",
+      },
+      attemptsLeft:
+        "{count, plural, =0 {Dernière tentative avant le verrouillage du compte.} one {Encore # tentative avant le verrouillage du compte.} other {Encore # tentatives avant le verrouillage du compte.}}",
+      retryIn:
+        "{seconds, plural, one {Réessayer dans # seconde} other {Réessayer dans # secondes}}",
+      locked: {
+        title: "Compte verrouillé",
+        desc: "Trop de tentatives de connexion ont échoué. Contactez votre superviseur pour débloquer le compte.",
+      },
+      mfa: {
+        title: "Vérification en deux étapes",
+        codeDesc:
+          "Saisissez le code à 6 chiffres affiché par votre application d’authentification.",
+        recoveryDesc:
+          "Saisissez l’un des codes de récupération enregistrés lors de l’activation.",
+        code: "Code de vérification",
+        recoveryCode: "Code de récupération",
+        submit: "Vérifier",
+        back: "Retour",
+        useRecovery: "Utiliser un code de récupération",
+        useCode: "Utiliser l’application",
+        validation: {
+          codeInvalid: "Le code comporte 6 chiffres.",
+          codeRejected: "Code incorrect ou expiré.",
+          recoveryRequired: "Le code de récupération est requis.",
+          recoveryRejected: "Code de récupération invalide ou déjà utilisé.",
+        },
+      },
     },
     logout: {
       successToast: "Déconnexion effectuée.",
     },
+    roles: {
+      VIEWER: "Lecteur",
+      AGENT: "Agent",
+      SUPERVISOR: "Superviseur",
+      ADMIN: "Administrateur",
+    },
+    permissions: {
+      readOnly: "Votre rôle ne permet pas de modifier cette demande.",
+    },
+    passwordStrength: {
+      label: "Robustesse : {strength}",
+      tooShort: "trop court",
+      weak: "faible",
+      fair: "moyenne",
+      good: "bonne",
+      strong: "excellente",
+    },
+    account: {
+      title: "Mon compte",
+      subtitle: "Mot de passe et sessions ouvertes.",
+      password: {
+        title: "Mot de passe",
+        desc: "Changez-le dès que vous pensez qu’il a pu fuiter.",
+        current: "Mot de passe actuel",
+        new: "Nouveau mot de passe",
+        submit: "Changer le mot de passe",
+        currentRequired: "Le mot de passe actuel est requis.",
+        wrongCurrent: "Mot de passe actuel incorrect.",
+        sameAsCurrent:
+          "Le nouveau mot de passe doit être différent de l’actuel.",
+        changedToast: "Mot de passe changé.",
+      },
+      mfa: {
+        title: "Vérification en deux étapes",
+        desc: "Un code de votre téléphone est demandé à chaque connexion, en plus du mot de passe.",
+        off: "La vérification en deux étapes n’est pas activée.",
+        enable: "Activer",
+        enabled: "Activée",
+        scan: "Scannez ce QR code avec votre application d’authentification (Google Authenticator, Microsoft Authenticator, FreeOTP…).",
+        qrAlt: "QR code de configuration",
+        manualKey: "Ou saisissez cette clé manuellement :",
+        copyKey: "Copier la clé",
+        confirmDesc:
+          "Saisissez ensuite le code affiché pour confirmer l’activation.",
+        confirm: "Confirmer",
+        enabledToast: "Vérification en deux étapes activée.",
+        recoveryTitle: "Codes de récupération",
+        recoveryDesc:
+          "Conservez-les en lieu sûr : chacun permet une connexion sans votre téléphone, une seule fois. Ils ne seront plus affichés.",
+        copyCodes: "Copier les codes",
+        savedCodes: "Je les ai enregistrés",
+        copied: "Copié dans le presse-papiers.",
+        copyFailed: "Impossible de copier dans le presse-papiers.",
+        recoveryRemaining:
+          "{count, plural, =0 {aucun code de récupération restant} one {# code de récupération restant} other {# codes de récupération restants}}",
+        disableDesc:
+          "Pour la désactiver, saisissez un code de votre application.",
+        disable: "Désactiver",
+        disabledToast: "Vérification en deux étapes désactivée.",
+      },
+      sessions: {
+        title: "Sessions actives",
+        desc: "Navigateurs et appareils connectés à votre compte.",
+        refresh: "Actualiser",
+        empty: "Aucune session active.",
+        current: "Cet appareil",
+        unknownDevice: "Appareil inconnu",
+        details: "IP {ip} · dernière activité {lastUsedAt}",
+        revoke: "Fermer",
+        revokeTitle: "Fermer cette session ?",
+        revokeDesc: "L’appareil concerné devra se reconnecter.",
+        revokedToast: "Session fermée.",
+        revokeAll: "Se déconnecter partout",
+        revokeAllTitle: "Se déconnecter partout ?",
+        revokeAllDesc:
+          "Toutes vos sessions seront fermées, y compris celle-ci.",
+      },
+    },
+    users: {
+      title: "Utilisateurs",
+      subtitle: "Comptes d’administration, rôles et accès.",
+      create: "Nouvel utilisateur",
+      refresh: "Actualiser",
+      empty: "Aucun utilisateur.",
+      you: "vous",
+      columns: {
+        username: "Identifiant",
+        role: "Rôle",
+        gouvernorats: "Gouvernorats",
+        status: "État",
+        lastLoginAt: "Dernière connexion",
+        actions: "Actions",
+      },
+      allGouvernorats: "Tous",
+      never: "Jamais",
+      active: "Actif",
+      disabled: "Désactivé",
+      actions: {
+        changeRole: "Changer le rôle",
+        resetPassword: "Réinitialiser le mot de passe",
+        disable: "Désactiver",
+        enable: "Réactiver",
+      },
+      field: {
+        username: "Identifiant",
+        password: "Mot de passe",
+        confirmPassword: "Confirmer le mot de passe",
+        role: "Rôle",
+        gouvernorats: "Gouvernorats",
+      },
+      gouvernoratsHint:
+        "Un agent ne voit que les demandes de ces gouvernorats.",
+      validation: {
+        usernameInvalid:
+          "3 à 50 caractères : lettres, chiffres, point, tiret ou tiret bas.",
+        passwordMismatch: "Les mots de passe ne correspondent pas.",
+        gouvernoratsRequired: "Choisissez au moins un gouvernorat.",
+      },
+      createTitle: "Nouvel utilisateur",
+      createDesc: "Le compte peut se connecter dès sa création.",
+      createSubmit: "Créer",
+      createdToast: "Utilisateur {username} créé.",
+      roleTitle: "Changer le rôle",
+      roleDesc: "Rôle et gouvernorats de {username}.",
+      roleSubmit: "Enregistrer",
+      roleUpdatedToast: "Rôle de {username} mis à jour.",
+      passwordTitle: "Réinitialiser le mot de passe",
+      passwordDesc:
+        "Définit un nouveau mot de passe pour {username}. Communiquez-le de façon sûre.",
+      passwordSubmit: "Réinitialiser",
+      passwordResetToast: "Mot de passe de {username} réinitialisé.",
+      disableTitle: "Désactiver l’utilisateur ?",
+      disableDesc: "{username} ne pourra plus se connecter.",
+      disabledToast: "{username} a été désactivé.",
+      enableTitle: "Réactiver l’utilisateur ?",
+      enableDesc: "{username} pourra de nouveau se connecter.",
+      enabledToast: "{username} a été réactivé.",
+      forbidden: "Votre rôle ne permet pas de gérer les utilisateurs.",
+    },
+    idle: {
+      title: "Êtes-vous toujours là ?",
+      description:
+        "Par sécurité, vous serez déconnecté dans {seconds, plural, one {# seconde} other {# secondes}} faute d’activité.",
+      stay: "Rester connecté",
+    },
     dashboard: {
       title: "Demandes / Cartes",
       subtitle: "Consultez et mettez à jour les statuts.",
@@ -113,6 +301,15 @@ export const frMessages = {
       },
       sortDirAria: "Changer l’ordre",
       statusAll: "Tous",
+      genreAll: "Tous",
+      columnsToggle: "Colonnes",
+      copyLink: "Copier le lien",
+      linkCopied: "Lien vers cette vue copié.",
+      linkCopyFailed: "Impossible de copier le lien.",
+      genre: {
+        M: "Masculin",
+        F: "Féminin",
+      },
       pagination: {
         prev: "Précédent",
         next: "Suivant",
@@ -124,6 +321,9 @@ export const frMessages = {
         gouvernorat: "Gouvernorat",
         status: "Statut",
         updatedAt: "Mise à jour",
+        genre: "Genre",
+        institut: "Institut",
+        diplome: "Diplôme",
         actions: "Actions",
       },
       field: {
@@ -132,12 +332,128 @@ export const frMessages = {
         cin: "CIN",
         status: "Statut",
         gouvernorat: "Gouvernorat",
-        gouvernoratPlaceholder: "Ex: Tunis",
+        gouvernoratPlaceholder: "Tous les gouvernorats",
+        institut: "Institut",
+        diplome: "Diplôme",
+        genre: "Genre",
+        dateFrom: "Créée du",
+        dateTo: "Créée au",
         sortBy: "Trier par",
         pageSize: "Taille",
       },
       actionUpdate: "Mettre à jour",
       page: "Page {page} sur {pages}",
+      totalCount:
+        "{total, plural, one {# demande} other {# demandes}} au total",
+    },
+    stats: {
+      title: "Statistiques",
+      subtitle:
+        "Vue d’ensemble des demandes. Cliquez sur un segment pour ouvrir la liste filtrée.",
+      refresh: "Actualiser",
+      empty: "Aucune donnée sur la période.",
+      loadError: "Impossible de charger les statistiques.",
+      retry: "Réessayer",
+      byStatus: "Demandes par statut",
+      byGouvernorat: "Demandes par gouvernorat",
+      weekly: "Créées vs remises ({weeks} dernières semaines)",
+      created: "Créées",
+      delivered: "Remises",
+      weekCreated:
+        "Semaine du {week} : {count, plural, one {# créée} other {# créées}}",
+      weekDelivered:
+        "Semaine du {week} : {count, plural, one {# remise} other {# remises}}",
+      ageing: "Ancienneté dans le statut",
+      buckets: {
+        "0-7": "0–7 jours",
+        "8-14": "8–14 jours",
+        "15-30": "15–30 jours",
+        "31+": "Plus de 30 jours",
+      },
+    },
+    bulk: {
+      selectedCount:
+        "{count, plural, one {# sélectionnée} other {# sélectionnées}}",
+      selectPage: "Sélectionner la page",
+      selectRow: "Sélectionner la demande {id}",
+      selectAllMatching:
+        "{total, plural, one {Sélectionner le résultat} other {Sélectionner les # résultats}}",
+      clearSelection: "Effacer la sélection",
+      hiddenCount: "dont {count} sur d'autres pages",
+      selecting: "Sélection… {loaded} / {total}",
+      action: "Mise à jour groupée",
+      title: "Mise à jour groupée",
+      description:
+        "La modification sera appliquée à {count, plural, one {# demande} other {# demandes}}.",
+      apply: "Appliquer à {count, plural, one {# demande} other {# demandes}}",
+      progress:
+        "{done, plural, one {# traitée} other {# traitées}} sur {total}",
+      summary:
+        "{succeeded, plural, one {# réussie} other {# réussies}}, {failed} en échec",
+      failuresTitle: "Demandes en échec",
+      stop: "Arrêter",
+      retryFailed:
+        "{count, plural, one {Réessayer l’échec} other {Réessayer les # échecs}}",
+      successToast:
+        "{count, plural, one {# demande mise à jour} other {# demandes mises à jour}}.",
+    },
+    export: {
+      action: "Exporter",
+      csv: "CSV (Excel)",
+      xlsx: "Classeur XLSX",
+      progress: "{loaded} / {total} lignes",
+      successToast:
+        "{count, plural, one {# ligne exportée} other {# lignes exportées}}.",
+      columns: {
+        id: "ID",
+        nom: "Nom",
+        prenom: "Prénom",
+        cin: "CIN",
+        genre: "Genre",
+        institut: "Institut",
+        diplome: "Diplôme",
+        gouvernorat: "Gouvernorat",
+        codePostal: "Code postal",
+        status: "Statut",
+        pickupEstablishment: "Établissement de retrait",
+        pickupAddress: "Adresse de retrait",
+        createdAt: "Créée le",
+        updatedAt: "Mise à jour le",
+      },
+    },
+    detail: {
+      title: "Détail de la demande",
+      identity: "Identité",
+      request: "Demande",
+      pickup: "Point de retrait",
+      codePostal: "Code postal",
+      createdAt: "Créée le",
+      updatedAt: "Mise à jour le",
+      copyId: "Copier l’ID",
+      copyCin: "Copier le CIN",
+      tabs: {
+        details: "Détails",
+        history: "Historique",
+      },
+    },
+    history: {
+      title: "Historique des modifications",
+      refresh: "Actualiser",
+      empty: "Aucune modification enregistrée.",
+      system: "Système",
+      status: "Statut :",
+      reason: "Motif",
+    },
+    conflict: {
+      title: "Cette demande a été modifiée entre-temps",
+      description:
+        "Un autre agent l’a mise à jour le {date}. Votre modification n’a pas été enregistrée.",
+      status: "Statut",
+      server: "Valeur actuelle",
+      mine: "Votre modification",
+      noChange: "Inchangé",
+      reapply: "Réappliquer ma modification",
+      discard: "Abandonner",
     },
     updateStatus: {
       title: "Mettre à jour le statut",
@@ -151,8 +467,23 @@ export const frMessages = {
       newAddress: "Nouvelle adresse",
       placeholderEstablishment: "Ex: Bureau de poste Tunis Centre",
       placeholderAddress: "Ex: 12 Avenue Habib Bourguiba, Tunis",
+      finalStatusHint:
+        "Statut final : aucune transition n’est possible sans forçage.",
+      force: "Forcer (hors cycle de vie)",
+      forceHint:
+        "Autorise un statut non prévu par le cycle de vie. Un motif est obligatoire.",
+      reason: "Motif du forçage",
+      placeholderReason: "Ex: Erreur de saisie, carte remise par erreur…",
+      forceConfirmTitle: "Confirmer le forçage ?",
+      forceConfirmDesc:
+        "Cette mise à jour contourne les règles du cycle de vie et sera tracée avec le motif saisi.",
+      forceConfirm: "Forcer la mise à jour",
+      forceBack: "Retour",
       validation: {
         atLeastOneField: "Veuillez modifier au moins un champ.",
+        transitionNotAllowed: "Cette transition de statut n’est pas autorisée.",
+        pickupRequired: "Obligatoire pour passer au statut « Prête ».",
+        reasonRequired: "Veuillez indiquer un motif (10 caractères minimum).",
       },
       successToast: "Mise à jour effectuée.",
     },
@@ -169,16 +500,25 @@ export const frMessages = {
     error: "Erreur",
     requestId: "ID de requête",
     rateLimitedTitle: "Trop de tentatives",
-    rateLimitedDesc: "Veuillez réessayer dans {seconds}s.",
+    rateLimitedDesc:
+      "Veuillez réessayer dans {seconds, plural, one {# seconde} other {# secondes}}.",
     statusFetched: "Statut récupéré.",
-    sessionExpired: "Votre session a expiré. Veuillez vous reconnecter.",
   },
   apiError: {
     INTERNAL_ERROR: "Une erreur est survenue. Veuillez réessayer.",
     NOT_FOUND: "Aucune demande ne correspond aux informations saisies.",
+    FORBIDDEN: "Vous n’avez pas les droits nécessaires pour cette action.",
     INVALID_CREDENTIALS: "Identifiant ou mot de passe incorrect.",
+    ACCOUNT_LOCKED:
+      "Compte verrouillé après trop de tentatives. Contactez votre superviseur.",
     MISSING_REFRESH_TOKEN: "Session manquante. Veuillez vous reconnecter.",
     INVALID_REFRESH_TOKEN: "Session invalide. Veuillez vous reconnecter.",
     REFRESH_TOKEN_EXPIRED: "Session expirée. Veuillez vous reconnecter.",
+    MFA_CHALLENGE_EXPIRED:
+      "La vérification a expiré. Veuillez saisir à nouveau votre mot de passe.",
+    INVALID_MFA_TOKEN:
+      "La vérification a expiré. Veuillez saisir à nouveau votre mot de passe.",
+    INVALID_RESPONSE:
+      "Réponse inattendue du serveur. Veuillez réessayer ou contacter le support.",
   },
-};
+} as const;
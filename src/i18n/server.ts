@@ -0,0 +1,68 @@
+import type { Metadata } from "next";
+import { cookies, headers } from "next/headers";
+
+import {
+  DEFAULT_LOCALE,
+  isLocale,
+  LOCALE_COOKIE_NAME,
+  LOCALE_QUERY_PARAM,
+  LOCALES,
+  negotiateLocale,
+  type Locale,
+} from "./i18n";
+
+/** Request header the proxy uses to pass the pathname to server components. */
+export const PATHNAME_HEADER = "x-pathname";
+
+/**
+ * Locale for the current request: the `locale` cookie (also set by the proxy
+ * from `?lang=`), otherwise negotiated from `Accept-Language`.
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const cookieStore = await cookies();
+  const value = cookieStore.get(LOCALE_COOKIE_NAME)?.value;
+  if (value && isLocale(value)) return value;
+
+  const headerStore = await headers();
+  return negotiateLocale(headerStore.get("accept-language")) ?? DEFAULT_LOCALE;
+}
+
+function parseOrigin(value: string): URL | undefined {
+  try {
+    return new URL(new URL(value).origin);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Public origin of the site (`SITE_URL`), used as `metadataBase`. Request
+ * headers are client-controlled, so the `Host` header is only a fallback in
+ * development.
+ */
+export async function getSiteOrigin(): Promise<URL | undefined> {
+  const configured = process.env.SITE_URL;
+  if (configured) return parseOrigin(configured);
+  if (process.env.NODE_ENV !== "development") return undefined;
+
+  const headerStore = await headers();
+  const host = headerStore.get("host");
+  return host ? parseOrigin(`http://${host}`) : undefined;
+}
+
+/** hreflang alternates of the current page, one `?lang=` URL per locale. */
+export async function getLocaleAlternates(): Promise<Metadata["alternates"]> {
+  const headerStore = await headers();
+  const pathname = headerStore.get(PATHNAME_HEADER) ?? "/";
+  return {
+    languages: {
+      ...Object.fromEntries(
+        LOCALES.map((locale) => [
+          locale,
+          `${pathname}?${LOCALE_QUERY_PARAM}=${locale}`,
+        ])
+      ),
+      "x-default": pathname,
+    },
+  };
+}
@@ -0,0 +1,137 @@
+import {
+  ApiClientError,
+  SessionEndedError,
+  adminListCardRequests,
+  adminUpdateCardRequest,
+  type AdminCardRequestUpdateBody,
+  type AdminCardRequestsListQuery,
+  type AdminCardRequestsListResponse,
+} from "@/lib/api/client";
+
+type AdminCallOptions = {
+  accessToken: string;
+  onAccessTokenRefreshed?: (nextToken: string) => void;
+  /** The session's current token, so a proactive refresh is picked up too. */
+  getAccessToken?: () => string | null;
+  signal?: AbortSignal;
+};
+
+// Long-running loops keep using the latest token instead of hitting a 401 (and
+// a refresh) on every call made with the original one.
+function trackAccessToken(opts: AdminCallOptions) {
+  let token = opts.accessToken;
+  return {
+    get: () => opts.getAccessToken?.() || token,
+    onRefreshed: (next: string) => {
+      token = next;
+      opts.onAccessTokenRefreshed?.(next);
+    },
+  };
+}
+
+/**
+ * Pages through `adminListCardRequests` for a query, yielding each page until
+ * every matching item has been returned.
+ */
+export async function* iterateCardRequests(
+  query: AdminCardRequestsListQuery,
+  opts: AdminCallOptions & { pageSize?: number }
+): AsyncGenerator<AdminCardRequestsListResponse> {
+  const pageSize = opts.pageSize ?? 100;
+  const token = trackAccessToken(opts);
+
+  for (let page = 1; ; page++) {
+    const res = await adminListCardRequests(
+      { ...query, page, pageSize },
+      {
+        accessToken: token.get(),
+        onAccessTokenRefreshed: token.onRefreshed,
+        signal: opts.signal,
+      }
+    );
+    yield res;
+    if (res.items.length < pageSize || page * pageSize >= res.total) return;
+  }
+}
+
+export async function collectCardRequestIds(
+  query: AdminCardRequestsListQuery,
+  opts: AdminCallOptions & {
+    onProgress?: (loaded: number, total: number) => void;
+  }
+): Promise<number[]> {
+  const ids: number[] = [];
+  for await (const res of iterateCardRequests(query, opts)) {
+    for (const item of res.items) ids.push(item.id);
+    opts.onProgress?.(ids.length, res.total);
+  }
+  return ids;
+}
+
+export type BulkUpdateResult =
+  | { id: number; ok: true }
+  | {
+      id: number;
+      ok: false;
+      code: string;
+      message: string;
+      requestId?: string;
+    };
+
+/**
+ * Applies the same update to every id with a small worker pool.
+ * Per-id failures are collected rather than thrown; an ended session or an
+ * abort stops the whole run and is rethrown.
+ */
+export async function bulkUpdateCardRequests(
+  ids: readonly number[],
+  body: AdminCardRequestUpdateBody,
+  opts: AdminCallOptions & {
+    concurrency?: number;
+    onProgress?: (result: BulkUpdateResult) => void;
+  }
+): Promise<BulkUpdateResult[]> {
+  const token = trackAccessToken(opts);
+  const results: BulkUpdateResult[] = [];
+  let next = 0;
+
+  async function worker() {
+    while (next < ids.length) {
+      opts.signal?.throwIfAborted();
+      const id = ids[next++];
+      let result: BulkUpdateResult;
+      try {
+        await adminUpdateCardRequest(id, body, {
+          accessToken: token.get(),
+          onAccessTokenRefreshed: token.onRefreshed,
+          signal: opts.signal,
+        });
+        result = { id, ok: true };
+      } catch (e) {
+        if ((e as Error)?.name === "AbortError") throw e;
+        if (e instanceof SessionEndedError) throw e;
+        result =
+          e instanceof ApiClientError
+            ? {
+                id,
+                ok: false,
+                code: e.code,
+                message: e.message,
+                requestId: e.requestId,
+              }
+            : {
+                id,
+                ok: false,
+                code: "INTERNAL_ERROR",
+                message: (e as Error)?.message ?? String(e),
+              };
+      }
+      results.push(result);
+      opts.onProgress?.(result);
+    }
+  }
+
+  const concurrency = Math.max(1, Math.min(opts.concurrency ?? 4, ids.length));
+  await Promise.all(Array.from({ length: concurrency }, () => worker()));
+  return results;
+}
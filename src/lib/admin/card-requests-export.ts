@@ -0,0 +1,118 @@
+import { iterateCardRequests } from "@/lib/admin/card-requests-bulk";
+import {
+  type AdminCardRequestItem,
+  type AdminCardRequestsListQuery,
+} from "@/lib/api/client";
+
+export const EXPORT_COLUMNS = [
+  "id",
+  "nom",
+  "prenom",
+  "cin",
+  "genre",
+  "institut",
+  "diplome",
+  "gouvernorat",
+  "codePostal",
+  "status",
+  "pickupEstablishment",
+  "pickupAddress",
+  "createdAt",
+  "updatedAt",
+] as const satisfies readonly (keyof AdminCardRequestItem)[];
+
+export type ExportColumn = (typeof EXPORT_COLUMNS)[number];
+
+export type ExportFormat = "csv" | "xlsx";
+
+type Cell = string | number | null;
+
+/**
+ * Fetches every item matching the query (ignoring its page/pageSize),
+ * reporting progress after each page.
+ */
+export async function fetchCardRequestsForExport(
+  query: AdminCardRequestsListQuery,
+  opts: {
+    accessToken: string;
+    onAccessTokenRefreshed?: (nextToken: string) => void;
+    signal?: AbortSignal;
+    onProgress?: (loaded: number, total: number) => void;
+  }
+): Promise<AdminCardRequestItem[]> {
+  const items: AdminCardRequestItem[] = [];
+  for await (const res of iterateCardRequests(query, opts)) {
+    items.push(...res.items);
+    opts.onProgress?.(items.length, res.total);
+  }
+  return items;
+}
+
+export function toExportRows(
+  items: AdminCardRequestItem[],
+  headers: Record<ExportColumn, string>,
+  formatCell: (column: ExportColumn, item: AdminCardRequestItem) => Cell = (
+    column,
+    item
+  ) => item[column]
+): Cell[][] {
+  return [
+    EXPORT_COLUMNS.map((c) => headers[c]),
+    ...items.map((item) => EXPORT_COLUMNS.map((c) => formatCell(c, item))),
+  ];
+}
+
+// Spreadsheets read a CSV cell starting with one of these as a formula. Names
+// and addresses are typed in by citizens and agents, so they are never
+// trusted. XLSX cells are typed as strings and need no such guard.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/** Prefixes a quote so a text cell is displayed, never evaluated. */
+function neutralizeFormula(value: Cell): Cell {
+  return typeof value === "string" && FORMULA_PREFIX.test(value)
+    ? `'${value}`
+    : value;
+}
+
+function escapeCsvCell(value: Cell, delimiter: string): string {
+  if (value === null) return "";
+  const str = String(neutralizeFormula(value));
+  return str.includes(delimiter) || /["\r\n]/.test(str)
+    ? `"${str.replace(/"/g, '""')}"`
+    : str;
+}
+
+/**
+ * UTF-8 CSV with a BOM so Excel detects the encoding (Arabic names would
+ * otherwise be garbled). Semicolons match Excel's default in fr/ar locales.
+ */
+export function rowsToCsvBlob(rows: Cell[][], delimiter = ";"): Blob {
+  const csv = rows
+    .map((row) => row.map((v) => escapeCsvCell(v, delimiter)).join(delimiter))
+    .join("\r\n");
+  return new Blob(["\uFEFF", csv], { type: "text/csv;charset=utf-8" });
+}
+
+export async function rowsToXlsxBlob(rows: Cell[][]): Promise<Blob> {
+  // Loaded on demand to keep the XLSX writer out of the admin bundle.
+  const { default: writeXlsxFile } = await import("write-excel-file/universal");
+  const [header, ...body] = rows;
+  return writeXlsxFile([
+    header.map((value) => ({
+      value: String(value ?? ""),
+      fontWeight: "bold" as const,
+    })),
+    ...body,
+  ]).toBlob();
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  window.setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,109 @@
+import { z } from "zod";
+
+import {
+  ADMIN_CARD_REQUESTS_SORT_FIELDS,
+  CARD_REQUEST_STATUSES,
+  type AdminCardRequestsListQuery,
+} from "@/lib/api/client";
+
+export const GENRE_VALUES = ["M", "F"] as const;
+
+export const PAGE_SIZE_OPTIONS = [10, 20, 50, 100] as const;
+
+export type ResolvedCardRequestsQuery = AdminCardRequestsListQuery &
+  Required<
+    Pick<AdminCardRequestsListQuery, "page" | "pageSize" | "sortBy" | "sortDir">
+  >;
+
+export const DEFAULT_CARD_REQUESTS_QUERY = {
+  page: 1,
+  pageSize: 20,
+  sortBy: "createdAt",
+  sortDir: "desc",
+} as const satisfies ResolvedCardRequestsQuery;
+
+const textFilter = z.string().trim().min(1).max(100);
+const dateFilter = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/)
+  .refine((v) => !Number.isNaN(Date.parse(v)));
+
+// One schema per search param: an invalid value only drops that param and
+// falls back to its default, it never invalidates the whole view.
+const paramSchemas = {
+  page: z.coerce.number().int().min(1),
+  pageSize: z.coerce
+    .number()
+    .refine((n) => (PAGE_SIZE_OPTIONS as readonly number[]).includes(n)),
+  sortBy: z.enum(ADMIN_CARD_REQUESTS_SORT_FIELDS),
+  sortDir: z.enum(["asc", "desc"]),
+  status: z.enum(CARD_REQUEST_STATUSES),
+  genre: z.enum(GENRE_VALUES),
+  gouvernorat: textFilter,
+  institut: textFilter,
+  diplome: textFilter,
+  cin: textFilter,
+  nom: textFilter,
+  prenom: textFilter,
+  dateFrom: dateFilter,
+  dateTo: dateFilter,
+} satisfies {
+  [K in keyof AdminCardRequestsListQuery]-?: z.ZodType<
+    NonNullable<AdminCardRequestsListQuery[K]>,
+    unknown
+  >;
+};
+
+type QueryKey = keyof typeof paramSchemas;
+
+const queryKeys = Object.keys(paramSchemas) as QueryKey[];
+
+export function parseCardRequestsQuery(params: {
+  get(name: string): string | null;
+}): ResolvedCardRequestsQuery {
+  const query: AdminCardRequestsListQuery = {};
+  for (const key of queryKeys) {
+    const raw = params.get(key);
+    if (raw === null) continue;
+    const result = paramSchemas[key].safeParse(raw);
+    if (result.success) {
+      (query as Record<QueryKey, unknown>)[key] = result.data;
+    }
+  }
+
+  const resolved = { ...DEFAULT_CARD_REQUESTS_QUERY, ...query };
+  if (
+    resolved.dateFrom &&
+    resolved.dateTo &&
+    resolved.dateFrom > resolved.dateTo
+  ) {
+    delete resolved.dateTo;
+  }
+  return resolved;
+}
+
+/**
+ * Builds canonical search params for a query: keys in a stable order, blank
+ * values and defaults omitted, so two equal queries always yield the same URL.
+ */
+export function serializeCardRequestsQuery(
+  query: AdminCardRequestsListQuery
+): URLSearchParams {
+  const defaults: Partial<Record<QueryKey, unknown>> =
+    DEFAULT_CARD_REQUESTS_QUERY;
+  const params = new URLSearchParams();
+  for (const key of queryKeys) {
+    const value = query[key];
+    if (value === undefined || value === null) continue;
+    const str = String(value).trim();
+    if (!str) continue;
+    if (defaults[key] === value) continue;
+    params.set(key, str);
+  }
+  return params;
+}
+
+export function cardRequestsHref(query: AdminCardRequestsListQuery): string {
+  const qs = serializeCardRequestsQuery(query).toString();
+  return qs ? `/admin?${qs}` : "/admin";
+}
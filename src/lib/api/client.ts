@@ -1,8 +1,19 @@
+import { z } from "zod";
+
+import { isJwtExpiring } from "@/lib/auth/jwt";
+import {
+  endSession,
+  getLatestAccessToken,
+  publishSessionEvent,
+  withRefreshLock,
+} from "@/lib/auth/session-channel";
+
 export type ApiErrorShape = {
   error: {
     code: string;
     message: string;
     requestId: string;
+    details?: unknown;
   };
 };
 
@@ -11,6 +22,7 @@ export class ApiClientError extends Error {
   code: string;
   requestId?: string;
   retryAfterSeconds?: number;
+  details?: unknown;
 
   constructor(input: {
     status: number;
@@ -18,6 +30,7 @@ export class ApiClientError extends Error {
     message: string;
     requestId?: string;
     retryAfterSeconds?: number;
+    details?: unknown;
   }) {
     super(input.message);
     this.name = "ApiClientError";
@@ -25,9 +38,44 @@ export class ApiClientError extends Error {
     this.code = input.code;
     this.requestId = input.requestId;
     this.retryAfterSeconds = input.retryAfterSeconds;
+    this.details = input.details;
+  }
+}
+
+/**
+ * Thrown by `adminUpdateCardRequest` when the record changed since it was
+ * read (409/412). `current` holds the server's version when the backend sent
+ * it along with the error.
+ */
+export class CardRequestConflictError extends ApiClientError {
+  current: AdminCardRequestItem | null;
+
+  constructor(error: ApiClientError, current: AdminCardRequestItem | null) {
+    super(error);
+    this.name = "CardRequestConflictError";
+    this.current = current;
+  }
+}
+
+/**
+ * Thrown by admin calls when the access token could not be renewed (the
+ * refresh cookie is missing, expired or revoked). The session has already
+ * been ended for every tab by the time callers see it, so they only need to
+ * stop; `AuthProvider` takes care of signing out and redirecting.
+ */
+export class SessionEndedError extends ApiClientError {
+  constructor(error: ApiClientError) {
+    super(error);
+    this.name = "SessionEndedError";
   }
 }
 
+/**
+ * Error code used when a 2xx response does not match the expected schema.
+ * The backend never emits it; it is produced client-side by `request()`.
+ */
+export const INVALID_RESPONSE_CODE = "INVALID_RESPONSE";
+
 export type CardStatusRequest = {
   nom: string;
   prenom: string;
@@ -41,8 +89,14 @@ export type CardStatusResponse = {
   pickupEstablishment: string | null;
   pickupAddress: string | null;
   updatedAt: string;
+  /** When each status was reached, oldest first. Absent on older backends. */
+  statusHistory?: { status: string; changedAt: string }[];
 };
 
+/** Admin roles, from least to most privileged. */
+export const ADMIN_ROLES = ["VIEWER", "AGENT", "SUPERVISOR", "ADMIN"] as const;
+export type AdminRole = (typeof ADMIN_ROLES)[number];
+
 export type AdminLoginRequest = {
   username: string;
   password: string;
@@ -52,7 +106,38 @@ export type AdminLoginResponse = {
   accessToken: string;
   tokenType: "Bearer";
   expiresIn: number;
-  admin: { id: number; username: string; role: "ADMIN" };
+  admin: { id: number; username: string; role: AdminRole };
+};
+
+/** Sent by login instead of tokens when the admin has 2FA enabled. */
+export type AdminMfaChallenge = {
+  status: "MFA_REQUIRED";
+  /** Short-lived token identifying the pending login. */
+  mfaToken: string;
+  expiresIn: number;
+};
+
+/** A 6-digit TOTP code, or one of the single-use recovery codes. */
+export type AdminMfaVerifyRequest = { mfaToken: string } & (
+  { code: string } | { recoveryCode: string }
+);
+
+export type AdminMfaStatus = {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type AdminMfaEnrollment = {
+  /** `otpauth://totp/...` URI encoded in the QR code. */
+  otpauthUrl: string;
+  /** Base32 secret, for apps that cannot scan the QR code. */
+  secret: string;
+  /** The QR code as an image data URL. */
+  qrCodeDataUrl: string;
+};
+
+export type AdminMfaRecoveryCodes = {
+  recoveryCodes: string[];
 };
 
 export type AdminRefreshResponse = {
@@ -61,6 +146,55 @@ export type AdminRefreshResponse = {
   expiresIn: number;
 };
 
+/** An admin account, as listed on the users screen. */
+export type AdminUserItem = {
+  id: number;
+  username: string;
+  role: AdminRole;
+  /** Governorates an AGENT may update; empty for other roles. */
+  gouvernorats: string[];
+  disabled: boolean;
+  createdAt: string;
+  lastLoginAt: string | null;
+};
+
+export type AdminUsersListResponse = {
+  items: AdminUserItem[];
+};
+
+export type AdminUserCreateBody = {
+  username: string;
+  password: string;
+  role: AdminRole;
+  gouvernorats?: string[];
+};
+
+export type AdminUserUpdateBody = {
+  role?: AdminRole;
+  gouvernorats?: string[];
+  disabled?: boolean;
+};
+
+export type AdminChangePasswordBody = {
+  currentPassword: string;
+  newPassword: string;
+};
+
+/** A refresh session of the signed-in admin (one per browser/device). */
+export type AdminSession = {
+  id: string;
+  userAgent: string | null;
+  ip: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  /** The session of the browser making the request. */
+  current: boolean;
+};
+
+export type AdminSessionsListResponse = {
+  items: AdminSession[];
+};
+
 export type CardRequestStatus =
   | "CREATED"
   | "IN_PROGRESS"
@@ -68,6 +202,14 @@ export type CardRequestStatus =
   | "DELIVERED"
   | "CANCELLED";
 
+export const CARD_REQUEST_STATUSES = [
+  "CREATED",
+  "IN_PROGRESS",
+  "READY",
+  "DELIVERED",
+  "CANCELLED",
+] as const satisfies readonly CardRequestStatus[];
+
 export type AdminCardRequestItem = {
   id: number;
   nom: string;
@@ -85,6 +227,47 @@ export type AdminCardRequestItem = {
   updatedAt: string;
 };
 
+/**
+ * One change to a card request. Each entry is a snapshot of the status and
+ * pickup fields right after the change; `changedBy` is null for changes not
+ * made by an admin (e.g. the initial submission).
+ */
+export type CardRequestHistoryEntry = {
+  id: number;
+  status: string;
+  pickupEstablishment: string | null;
+  pickupAddress: string | null;
+  changedBy: string | null;
+  changedAt: string;
+  reason: string | null;
+};
+
+export type CardRequestHistoryResponse = {
+  items: CardRequestHistoryEntry[];
+};
+
+/**
+ * Age of a request in its current status, in days since it entered it.
+ */
+export const CARD_REQUEST_AGE_BUCKETS = [
+  "0-7",
+  "8-14",
+  "15-30",
+  "31+",
+] as const;
+
+export type CardRequestAgeBucket = (typeof CARD_REQUEST_AGE_BUCKETS)[number];
+
+export type CardRequestStatsResponse = {
+  total: number;
+  byStatus: { status: string; count: number }[];
+  byGouvernorat: { gouvernorat: string; count: number }[];
+  /** One entry per ISO week (Monday `weekStart`, YYYY-MM-DD), oldest first. */
+  weekly: { weekStart: string; created: number; delivered: number }[];
+  /** Only requests currently IN_PROGRESS or READY. */
+  ageing: { status: string; bucket: CardRequestAgeBucket; count: number }[];
+};
+
 export type AdminCardRequestsListResponse = {
   page: number;
   pageSize: number;
@@ -92,10 +275,18 @@ export type AdminCardRequestsListResponse = {
   items: AdminCardRequestItem[];
 };
 
+export const ADMIN_CARD_REQUESTS_SORT_FIELDS = [
+  "createdAt",
+  "updatedAt",
+  "status",
+  "gouvernorat",
+  "cin",
+] as const;
+
 export type AdminCardRequestsListQuery = {
   page?: number;
   pageSize?: number;
-  sortBy?: "createdAt" | "updatedAt" | "status" | "gouvernorat" | "cin";
+  sortBy?: (typeof ADMIN_CARD_REQUESTS_SORT_FIELDS)[number];
   sortDir?: "asc" | "desc";
 
   status?: string;
@@ -114,21 +305,214 @@ export type AdminCardRequestUpdateBody = {
   status?: CardRequestStatus;
   pickupEstablishment?: string;
   pickupAddress?: string;
+  /** Bypass the status lifecycle rules; requires a `reason`. */
+  force?: boolean;
+  reason?: string;
+};
+
+// --- Response schemas ---
+// Every response is validated at runtime so a backend contract change surfaces
+// as an INVALID_RESPONSE error instead of flowing broken data into the UI.
+
+const cardStatusResponseSchema: z.ZodType<CardStatusResponse> = z.object({
+  status: z.string(),
+  pickupEstablishment: z.string().nullable(),
+  pickupAddress: z.string().nullable(),
+  updatedAt: z.string(),
+  statusHistory: z
+    .array(z.object({ status: z.string(), changedAt: z.string() }))
+    .optional(),
+});
+
+const adminLoginResponseSchema: z.ZodType<AdminLoginResponse> = z.object({
+  accessToken: z.string().min(1),
+  tokenType: z.literal("Bearer"),
+  expiresIn: z.number(),
+  admin: z.object({
+    id: z.number(),
+    username: z.string(),
+    role: z.enum(ADMIN_ROLES),
+  }),
+});
+
+const adminMfaChallengeSchema: z.ZodType<AdminMfaChallenge> = z.object({
+  status: z.literal("MFA_REQUIRED"),
+  mfaToken: z.string().min(1),
+  expiresIn: z.number(),
+});
+
+const adminMfaStatusSchema: z.ZodType<AdminMfaStatus> = z.object({
+  enabled: z.boolean(),
+  recoveryCodesRemaining: z.number(),
+});
+
+const adminMfaEnrollmentSchema: z.ZodType<AdminMfaEnrollment> = z.object({
+  otpauthUrl: z.string().startsWith("otpauth://"),
+  secret: z.string().min(1),
+  qrCodeDataUrl: z.string().startsWith("data:image/"),
+});
+
+const adminMfaRecoveryCodesSchema: z.ZodType<AdminMfaRecoveryCodes> = z.object({
+  recoveryCodes: z.array(z.string()),
+});
+
+const adminRefreshResponseSchema: z.ZodType<AdminRefreshResponse> = z.object({
+  accessToken: z.string().min(1),
+  tokenType: z.literal("Bearer"),
+  expiresIn: z.number(),
+});
+
+const adminUserItemSchema: z.ZodType<AdminUserItem> = z.object({
+  id: z.number(),
+  username: z.string(),
+  role: z.enum(ADMIN_ROLES),
+  gouvernorats: z.array(z.string()),
+  disabled: z.boolean(),
+  createdAt: z.string(),
+  lastLoginAt: z.string().nullable(),
+});
+
+const adminUsersListResponseSchema: z.ZodType<AdminUsersListResponse> =
+  z.object({
+    items: z.array(adminUserItemSchema),
+  });
+
+const adminSessionSchema: z.ZodType<AdminSession> = z.object({
+  id: z.string(),
+  userAgent: z.string().nullable(),
+  ip: z.string().nullable(),
+  createdAt: z.string(),
+  lastUsedAt: z.string(),
+  current: z.boolean(),
+});
+
+const adminSessionsListResponseSchema: z.ZodType<AdminSessionsListResponse> =
+  z.object({
+    items: z.array(adminSessionSchema),
+  });
+
+const adminCardRequestItemSchema: z.ZodType<AdminCardRequestItem> = z.object({
+  id: z.number(),
+  nom: z.string(),
+  prenom: z.string(),
+  cin: z.string(),
+  genre: z.string().nullable(),
+  institut: z.string().nullable(),
+  gouvernorat: z.string(),
+  diplome: z.string().nullable(),
+  codePostal: z.string(),
+  status: z.string(),
+  pickupEstablishment: z.string().nullable(),
+  pickupAddress: z.string().nullable(),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const adminCardRequestsListResponseSchema: z.ZodType<AdminCardRequestsListResponse> =
+  z.object({
+    page: z.number(),
+    pageSize: z.number(),
+    total: z.number(),
+    items: z.array(adminCardRequestItemSchema),
+  });
+
+const cardRequestHistoryResponseSchema: z.ZodType<CardRequestHistoryResponse> =
+  z.object({
+    items: z.array(
+      z.object({
+        id: z.number(),
+        status: z.string(),
+        pickupEstablishment: z.string().nullable(),
+        pickupAddress: z.string().nullable(),
+        changedBy: z.string().nullable(),
+        changedAt: z.string(),
+        reason: z.string().nullable(),
+      })
+    ),
+  });
+
+const countSchema = z.number().int().nonnegative();
+
+const cardRequestStatsResponseSchema: z.ZodType<CardRequestStatsResponse> =
+  z.object({
+    total: countSchema,
+    byStatus: z.array(z.object({ status: z.string(), count: countSchema })),
+    byGouvernorat: z.array(
+      z.object({ gouvernorat: z.string(), count: countSchema })
+    ),
+    weekly: z.array(
+      z.object({
+        weekStart: z.string(),
+        created: countSchema,
+        delivered: countSchema,
+      })
+    ),
+    ageing: z.array(
+      z.object({
+        status: z.string(),
+        bucket: z.enum(CARD_REQUEST_AGE_BUCKETS),
+        count: countSchema,
+      })
+    ),
+  });
+
+const okResponseSchema: z.ZodType<{ ok: true }> = z.object({
+  ok: z.literal(true),
+});
+
+// For endpoints whose body (if any) is ignored by the UI.
+const noContentSchema: z.ZodType<void> = z
+  .unknown()
+  .transform((): void => undefined);
+
+/**
+ * How a call is retried after a network error or a 408/429/502/503/504.
+ * Delays grow exponentially from `baseDelayMs` with full jitter, capped at
+ * `maxDelayMs`; a `Retry-After` longer than that cap is not waited for.
+ */
+export type RetryPolicy = {
+  /** Attempts after the first one. */
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retries: 2,
+  baseDelayMs: 300,
+  maxDelayMs: 5_000,
 };
 
+/**
+ * `false` disables retrying; an object overrides the default policy.
+ *
+ * GET requests are retried by default. POST and PATCH are never retried
+ * without an idempotency key, and PUT/DELETE only when `retry` is given.
+ */
+export type RetryOptions = Partial<RetryPolicy> | false;
+
 type ApiRequestOptions = {
   method?: "GET" | "POST" | "PATCH" | "PUT" | "DELETE";
   query?: Record<string, string | number | boolean | null | undefined>;
   body?: unknown;
+  headers?: Record<string, string>;
   accessToken?: string | null;
   credentials?: RequestCredentials;
   signal?: AbortSignal;
+  retry?: RetryOptions;
+  /** Sent as `Idempotency-Key`; lets a POST/PATCH be retried safely. */
+  idempotencyKey?: string;
 };
 
 type AdminRequestOptions = {
   accessToken: string;
   onAccessTokenRefreshed?: (nextToken: string) => void;
   signal?: AbortSignal;
+  retry?: RetryOptions;
+};
+
+type AdminMutationOptions = AdminRequestOptions & {
+  idempotencyKey?: string;
 };
 
 function getApiBaseUrl(): string {
@@ -183,19 +567,116 @@ async function parseJsonSafe(res: Response): Promise<unknown | null> {
   }
 }
 
+function validateResponse<T>(
+  schema: z.ZodType<T>,
+  data: unknown,
+  res: Response,
+  path: string
+): T {
+  const result = schema.safeParse(data);
+  if (result.success) return result.data;
+  throw new ApiClientError({
+    status: res.status,
+    code: INVALID_RESPONSE_CODE,
+    message: `Unexpected response from ${path}: ${z.prettifyError(
+      result.error
+    )}`,
+    requestId: res.headers.get("x-request-id") ?? undefined,
+  });
+}
+
+const RETRYABLE_STATUSES = new Set([408, 429, 502, 503, 504]);
+
+function getRetryPolicy(opts: ApiRequestOptions): RetryPolicy | null {
+  if (opts.retry === false) return null;
+  const method = opts.method ?? "GET";
+  const allowed =
+    method === "GET" ||
+    ((method === "POST" || method === "PATCH") && !!opts.idempotencyKey) ||
+    ((method === "PUT" || method === "DELETE") && opts.retry !== undefined);
+  return allowed ? { ...DEFAULT_RETRY_POLICY, ...opts.retry } : null;
+}
+
+/** Milliseconds to wait before the next attempt, or null to give up. */
+function getRetryDelayMs(
+  error: unknown,
+  attempt: number,
+  policy: RetryPolicy
+): number | null {
+  if (error instanceof ApiClientError) {
+    if (!RETRYABLE_STATUSES.has(error.status)) return null;
+    if (error.retryAfterSeconds !== undefined) {
+      const delay = error.retryAfterSeconds * 1000;
+      // A long wait is for the UI to show (e.g. a cooldown), not to block on.
+      return delay <= policy.maxDelayMs ? delay : null;
+    }
+  } else if (!(error instanceof TypeError)) {
+    // `fetch` rejects with a TypeError on network failures; anything else
+    // (an abort in particular) is final.
+    return null;
+  }
+  const cap = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const abortReason = () =>
+      signal?.reason ?? new DOMException("Aborted", "AbortError");
+    if (signal?.aborted) {
+      reject(abortReason());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortReason());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
 async function request<T>(
   path: string,
+  schema: z.ZodType<T>,
   opts: ApiRequestOptions = {}
+): Promise<T> {
+  const policy = getRetryPolicy(opts);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestOnce(path, schema, opts);
+    } catch (e) {
+      const delay =
+        policy && attempt < policy.retries
+          ? getRetryDelayMs(e, attempt, policy)
+          : null;
+      if (delay === null) throw e;
+      await sleep(delay, opts.signal);
+    }
+  }
+}
+
+async function requestOnce<T>(
+  path: string,
+  schema: z.ZodType<T>,
+  opts: ApiRequestOptions
 ): Promise<T> {
   const url = buildUrl(path, opts.query);
 
   const headers: Record<string, string> = {
     accept: "application/json",
+    ...opts.headers,
   };
 
   if (opts.accessToken) {
     headers.authorization = `Bearer ${opts.accessToken}`;
   }
+  if (opts.idempotencyKey) {
+    headers["idempotency-key"] = opts.idempotencyKey;
+  }
 
   let body: BodyInit | undefined;
   if (opts.body !== undefined) {
@@ -212,8 +693,10 @@ async function request<T>(
   });
 
   if (res.ok) {
-    // Some endpoints return 204 (no content)
-    if (res.status === 204) return undefined as T;
+    // A 204 has no body: only schemas that allow that (noContentSchema) pass.
+    if (res.status === 204) {
+      return validateResponse(schema, undefined, res, path);
+    }
     const parsed = await parseJsonSafe(res);
     // Defensive: if the API returns an error envelope with a 2xx status,
     // treat it as an error so the UI can show the proper state/message.
@@ -226,12 +709,14 @@ async function request<T>(
         requestId: err.requestId,
       });
     }
-    return parsed as T;
+    return validateResponse(schema, parsed, res, path);
   }
 
   const parsed = await parseJsonSafe(res);
   const retryAfterSeconds =
-    res.status === 429 ? parseRetryAfterSeconds(res) : undefined;
+    res.status === 429 || res.status === 503
+      ? parseRetryAfterSeconds(res)
+      : undefined;
 
   if (parsed && typeof parsed === "object" && "error" in parsed) {
     const err = (parsed as ApiErrorShape).error;
@@ -241,6 +726,7 @@ async function request<T>(
       message: err.message ?? `HTTP ${res.status}`,
       requestId: err.requestId,
       retryAfterSeconds,
+      details: err.details,
     });
   }
 
@@ -254,37 +740,123 @@ async function request<T>(
 
 let refreshInFlight: Promise<string> | null = null;
 
-async function refreshAccessToken(): Promise<string> {
+// A token another tab obtained is reused only if it is not about to expire.
+const SHARED_TOKEN_MIN_VALIDITY_MS = 10_000;
+
+/**
+ * The one refresh path for the app. Callers in this tab share a single
+ * request; other tabs wait on the refresh lock and reuse the token the
+ * winning tab broadcast instead of refreshing a second time.
+ */
+export async function refreshAccessToken(): Promise<string> {
   if (!refreshInFlight) {
-    refreshInFlight = (async () => {
-      const res = await request<AdminRefreshResponse>("/admin/auth/refresh", {
-        method: "POST",
-        credentials: "include",
-      });
+    const known = getLatestAccessToken();
+    refreshInFlight = withRefreshLock(async () => {
+      const latest = getLatestAccessToken();
+      if (
+        latest &&
+        latest !== known &&
+        !isJwtExpiring(latest, SHARED_TOKEN_MIN_VALIDITY_MS)
+      ) {
+        return latest;
+      }
+
+      const res = await request(
+        "/admin/auth/refresh",
+        adminRefreshResponseSchema,
+        {
+          method: "POST",
+          credentials: "include",
+        }
+      );
+      publishSessionEvent({ type: "token", accessToken: res.accessToken });
       return res.accessToken;
-    })().finally(() => {
+    }).finally(() => {
       refreshInFlight = null;
     });
   }
   return refreshInFlight;
 }
 
+// Codes for an access token that a refresh can fix. Older backends answer a
+// bare 401 without a code, so those are treated the same way. Any other coded
+// 401 (a wrong current password, a wrong MFA code) is a domain error for the
+// caller, not a sign that the session is over.
+const ACCESS_TOKEN_ERROR_CODES = new Set(["TOKEN_EXPIRED", "INVALID_TOKEN"]);
+
+function isAccessTokenError(err: ApiClientError): boolean {
+  if (ACCESS_TOKEN_ERROR_CODES.has(err.code)) return true;
+  return err.status === 401 && err.code === "HTTP_401";
+}
+
+const REFRESH_REJECTED_CODES = new Set([
+  "MISSING_REFRESH_TOKEN",
+  "INVALID_REFRESH_TOKEN",
+  "REFRESH_TOKEN_EXPIRED",
+]);
+
+/** Whether a failed refresh means the session is over (vs. a network blip). */
+export function isRefreshRejectedError(e: unknown): e is ApiClientError {
+  return (
+    e instanceof ApiClientError &&
+    (e.status === 401 || REFRESH_REJECTED_CODES.has(e.code))
+  );
+}
+
+const loginAttemptsDetailsSchema = z.object({
+  remainingAttempts: z.number().int().min(0),
+});
+
+/** Attempts left before lockout, when a failed login reports them. */
+export function getRemainingLoginAttempts(e: unknown): number | null {
+  if (!(e instanceof ApiClientError)) return null;
+  const parsed = loginAttemptsDetailsSchema.safeParse(e.details);
+  return parsed.success ? parsed.data.remainingAttempts : null;
+}
+
+function toSessionEndedError(err: ApiClientError): SessionEndedError {
+  endSession("expired");
+  return new SessionEndedError(err);
+}
+
 async function adminRequest<T>(
   path: string,
+  schema: z.ZodType<T>,
   opts: Omit<ApiRequestOptions, "accessToken"> & AdminRequestOptions
 ): Promise<T> {
   try {
-    return await request<T>(path, { ...opts, accessToken: opts.accessToken });
+    return await request(path, schema, {
+      ...opts,
+      accessToken: opts.accessToken,
+    });
   } catch (e) {
-    const err = e instanceof ApiClientError ? e : null;
-    // Some backends return 403 for expired/invalid access tokens.
-    // We treat 401/403 the same: try one refresh + retry once.
-    if (!err || (err.status !== 401 && err.status !== 403)) throw e;
+    // Only a stale token is worth a refresh; other errors reach the caller.
+    if (!(e instanceof ApiClientError) || !isAccessTokenError(e)) throw e;
 
     // Attempt one refresh + retry once.
-    const nextToken = await refreshAccessToken();
+    let nextToken: string;
+    try {
+      nextToken = await refreshAccessToken();
+    } catch (refreshError) {
+      if (isRefreshRejectedError(refreshError)) {
+        throw toSessionEndedError(refreshError);
+      }
+      throw refreshError;
+    }
     opts.onAccessTokenRefreshed?.(nextToken);
-    return await request<T>(path, { ...opts, accessToken: nextToken });
+
+    try {
+      return await request(path, schema, { ...opts, accessToken: nextToken });
+    } catch (retryError) {
+      // Even a fresh token is refused: the session is unusable.
+      if (
+        retryError instanceof ApiClientError &&
+        isAccessTokenError(retryError)
+      ) {
+        throw toSessionEndedError(retryError);
+      }
+      throw retryError;
+    }
   }
 }
 
@@ -294,7 +866,7 @@ export function publicGetCardStatus(
   body: CardStatusRequest,
   opts?: { signal?: AbortSignal }
 ): Promise<CardStatusResponse> {
-  return request<CardStatusResponse>("/public/card-status", {
+  return request("/public/card-status", cardStatusResponseSchema, {
     method: "POST",
     body,
     signal: opts?.signal,
@@ -306,8 +878,31 @@ export function publicGetCardStatus(
 export function adminLogin(
   body: AdminLoginRequest,
   opts?: { signal?: AbortSignal }
+): Promise<AdminLoginResponse | AdminMfaChallenge> {
+  return request(
+    "/admin/auth/login",
+    z.union([adminMfaChallengeSchema, adminLoginResponseSchema]),
+    {
+      method: "POST",
+      body,
+      credentials: "include",
+      signal: opts?.signal,
+    }
+  );
+}
+
+export function isMfaChallenge(
+  res: AdminLoginResponse | AdminMfaChallenge
+): res is AdminMfaChallenge {
+  return "status" in res && res.status === "MFA_REQUIRED";
+}
+
+/** Second login step: exchanges the challenge and a code for tokens. */
+export function adminVerifyMfa(
+  body: AdminMfaVerifyRequest,
+  opts?: { signal?: AbortSignal }
 ): Promise<AdminLoginResponse> {
-  return request<AdminLoginResponse>("/admin/auth/login", {
+  return request("/admin/auth/mfa/verify", adminLoginResponseSchema, {
     method: "POST",
     body,
     credentials: "include",
@@ -316,7 +911,7 @@ export function adminLogin(
 }
 
 export function adminLogout(opts?: { signal?: AbortSignal }): Promise<void> {
-  return request<void>("/admin/auth/logout", {
+  return request("/admin/auth/logout", noContentSchema, {
     method: "POST",
     credentials: "include",
     signal: opts?.signal,
@@ -326,38 +921,307 @@ export function adminLogout(opts?: { signal?: AbortSignal }): Promise<void> {
 export function adminRefresh(opts?: {
   signal?: AbortSignal;
 }): Promise<AdminRefreshResponse> {
-  return request<AdminRefreshResponse>("/admin/auth/refresh", {
+  return request("/admin/auth/refresh", adminRefreshResponseSchema, {
     method: "POST",
     credentials: "include",
     signal: opts?.signal,
   });
 }
 
-// --- Admin Card Requests ---
+// --- Admin Account ---
 
-export function adminListCardRequests(
-  query: AdminCardRequestsListQuery,
+export function adminChangePassword(
+  body: AdminChangePasswordBody,
+  opts: AdminMutationOptions
+): Promise<void> {
+  return adminRequest("/admin/me/password", noContentSchema, {
+    method: "POST",
+    body,
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+    idempotencyKey: opts.idempotencyKey,
+  });
+}
+
+// The refresh cookie is sent so the API can flag the current session.
+export function adminListSessions(
   opts: AdminRequestOptions
-): Promise<AdminCardRequestsListResponse> {
-  return adminRequest<AdminCardRequestsListResponse>("/admin/card-requests", {
+): Promise<AdminSessionsListResponse> {
+  return adminRequest("/admin/me/sessions", adminSessionsListResponseSchema, {
     method: "GET",
-    query,
+    credentials: "include",
     accessToken: opts.accessToken,
     onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
     signal: opts.signal,
+    retry: opts.retry,
   });
 }
 
-export function adminUpdateCardRequest(
-  id: number,
-  body: AdminCardRequestUpdateBody,
+export function adminRevokeSession(
+  id: string,
   opts: AdminRequestOptions
-): Promise<{ ok: true }> {
-  return adminRequest<{ ok: true }>(`/admin/card-requests/${id}`, {
+): Promise<void> {
+  return adminRequest(
+    `/admin/me/sessions/${encodeURIComponent(id)}`,
+    noContentSchema,
+    {
+      method: "DELETE",
+      credentials: "include",
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+    }
+  );
+}
+
+/** Revokes every session of the admin, including the current one. */
+export function adminRevokeAllSessions(
+  opts: AdminRequestOptions
+): Promise<void> {
+  return adminRequest("/admin/me/sessions", noContentSchema, {
+    method: "DELETE",
+    credentials: "include",
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+  });
+}
+
+export function adminGetMfaStatus(
+  opts: AdminRequestOptions
+): Promise<AdminMfaStatus> {
+  return adminRequest("/admin/me/mfa", adminMfaStatusSchema, {
+    method: "GET",
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+  });
+}
+
+/** Creates a new (not yet active) TOTP secret. */
+export function adminStartMfaEnrollment(
+  opts: AdminMutationOptions
+): Promise<AdminMfaEnrollment> {
+  return adminRequest("/admin/me/mfa/enroll", adminMfaEnrollmentSchema, {
+    method: "POST",
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+    idempotencyKey: opts.idempotencyKey,
+  });
+}
+
+/** Turns 2FA on once a code from the new secret checks out. */
+export function adminConfirmMfaEnrollment(
+  body: { code: string },
+  opts: AdminMutationOptions
+): Promise<AdminMfaRecoveryCodes> {
+  return adminRequest(
+    "/admin/me/mfa/enroll/confirm",
+    adminMfaRecoveryCodesSchema,
+    {
+      method: "POST",
+      body,
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+      idempotencyKey: opts.idempotencyKey,
+    }
+  );
+}
+
+export function adminDisableMfa(
+  body: { code: string },
+  opts: AdminRequestOptions
+): Promise<void> {
+  return adminRequest("/admin/me/mfa", noContentSchema, {
+    method: "DELETE",
+    body,
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+  });
+}
+
+// --- Admin Users ---
+
+export function adminListUsers(
+  opts: AdminRequestOptions
+): Promise<AdminUsersListResponse> {
+  return adminRequest("/admin/users", adminUsersListResponseSchema, {
+    method: "GET",
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+  });
+}
+
+export function adminCreateUser(
+  body: AdminUserCreateBody,
+  opts: AdminMutationOptions
+): Promise<AdminUserItem> {
+  return adminRequest("/admin/users", adminUserItemSchema, {
+    method: "POST",
+    body,
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+    idempotencyKey: opts.idempotencyKey,
+  });
+}
+
+/** Role, governorates and enabled state; omitted fields are left as is. */
+export function adminUpdateUser(
+  id: number,
+  body: AdminUserUpdateBody,
+  opts: AdminMutationOptions
+): Promise<AdminUserItem> {
+  return adminRequest(`/admin/users/${id}`, adminUserItemSchema, {
     method: "PATCH",
     body,
     accessToken: opts.accessToken,
     onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
     signal: opts.signal,
+    retry: opts.retry,
+    idempotencyKey: opts.idempotencyKey,
   });
 }
+
+/** Sets a new password for another admin. */
+export function adminResetUserPassword(
+  id: number,
+  body: { password: string },
+  opts: AdminMutationOptions
+): Promise<void> {
+  return adminRequest(`/admin/users/${id}/reset-password`, noContentSchema, {
+    method: "POST",
+    body,
+    accessToken: opts.accessToken,
+    onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+    signal: opts.signal,
+    retry: opts.retry,
+    idempotencyKey: opts.idempotencyKey,
+  });
+}
+
+// --- Admin Card Requests ---
+
+export function adminListCardRequests(
+  query: AdminCardRequestsListQuery,
+  opts: AdminRequestOptions
+): Promise<AdminCardRequestsListResponse> {
+  return adminRequest(
+    "/admin/card-requests",
+    adminCardRequestsListResponseSchema,
+    {
+      method: "GET",
+      query,
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+    }
+  );
+}
+
+export function adminGetCardRequest(
+  id: number,
+  opts: AdminRequestOptions
+): Promise<AdminCardRequestItem> {
+  return adminRequest(
+    `/admin/card-requests/${id}`,
+    adminCardRequestItemSchema,
+    {
+      method: "GET",
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+    }
+  );
+}
+
+export function adminGetCardRequestStats(
+  query: { weeks?: number },
+  opts: AdminRequestOptions
+): Promise<CardRequestStatsResponse> {
+  return adminRequest(
+    "/admin/card-requests/stats",
+    cardRequestStatsResponseSchema,
+    {
+      method: "GET",
+      query,
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+    }
+  );
+}
+
+export function adminGetCardRequestHistory(
+  id: number,
+  opts: AdminRequestOptions
+): Promise<CardRequestHistoryResponse> {
+  return adminRequest(
+    `/admin/card-requests/${id}/history`,
+    cardRequestHistoryResponseSchema,
+    {
+      method: "GET",
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+    }
+  );
+}
+
+/**
+ * Pass the `updatedAt` of the record the edit is based on as
+ * `expectedUpdatedAt`: it is sent as `If-Match`, and a stale version is
+ * rejected with a `CardRequestConflictError` instead of being overwritten.
+ */
+export async function adminUpdateCardRequest(
+  id: number,
+  body: AdminCardRequestUpdateBody,
+  opts: AdminMutationOptions & { expectedUpdatedAt?: string }
+): Promise<{ ok: true }> {
+  try {
+    return await adminRequest(`/admin/card-requests/${id}`, okResponseSchema, {
+      method: "PATCH",
+      body,
+      headers: opts.expectedUpdatedAt
+        ? { "if-match": `"${opts.expectedUpdatedAt}"` }
+        : undefined,
+      accessToken: opts.accessToken,
+      onAccessTokenRefreshed: opts.onAccessTokenRefreshed,
+      signal: opts.signal,
+      retry: opts.retry,
+      idempotencyKey: opts.idempotencyKey,
+    });
+  } catch (e) {
+    if (e instanceof ApiClientError && (e.status === 409 || e.status === 412)) {
+      throw new CardRequestConflictError(e, parseConflictCurrent(e.details));
+    }
+    throw e;
+  }
+}
+
+function parseConflictCurrent(details: unknown): AdminCardRequestItem | null {
+  const current =
+    details && typeof details === "object" && "current" in details
+      ? details.current
+      : undefined;
+  const result = adminCardRequestItemSchema.safeParse(current);
+  return result.success ? result.data : null;
+}
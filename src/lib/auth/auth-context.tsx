@@ -3,40 +3,90 @@
 import * as React from 'react';
 import { usePathname } from 'next/navigation';
 
-import { adminLogin, adminLogout, adminRefresh } from '@/lib/api/client';
+import {
+  ADMIN_ROLES,
+  ApiClientError,
+  adminLogin,
+  adminLogout,
+  adminVerifyMfa,
+  isMfaChallenge,
+  isRefreshRejectedError,
+  refreshAccessToken,
+  type AdminRole,
+} from '@/lib/api/client';
+import { decodeJwtPayload, getJwtExpiresAt } from '@/lib/auth/jwt';
+import {
+  endSession,
+  publishSessionEvent,
+  subscribeSessionEvents,
+} from '@/lib/auth/session-channel';
 
-type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated';
+/**
+ * `mfa_required`: the password was accepted and the login waits for a
+ * TOTP or recovery code (`verifyMfa`).
+ */
+type AuthStatus = 'loading' | 'authenticated' | 'unauthenticated' | 'mfa_required';
+
+export type MfaCredential = { code: string } | { recoveryCode: string };
+
+/** Why the session ended, shown on the login page (`?reason=`). */
+export type SignOutReason = 'idle' | 'expired' | 'revoked';
+
+export function isSignOutReason(value: string | null): value is SignOutReason {
+  return value === 'idle' || value === 'expired' || value === 'revoked';
+}
 
 export type AdminUser = {
   id: number;
   username: string;
-  role: 'ADMIN';
+  role: AdminRole;
+  /** Governorates an AGENT may update (the `gouvernorats` claim). */
+  gouvernorats: string[];
 };
 
 type AuthContextValue = {
   status: AuthStatus;
   accessToken: string | null;
   admin: AdminUser | null;
+  /**
+   * The current token, read at call time. Data loaders use it instead of
+   * `accessToken` so a token refresh does not trigger a refetch.
+   */
+  getAccessToken: () => string | null;
   setAccessToken: (token: string | null) => void;
-  login: (username: string, password: string) => Promise<void>;
-  logout: () => Promise<void>;
+  /** Resolves with `mfa_required` when a second step is needed. */
+  login: (username: string, password: string) => Promise<'authenticated' | 'mfa_required'>;
+  verifyMfa: (credential: MfaCredential) => Promise<void>;
+  /** Abandons a pending second step and goes back to the password form. */
+  cancelMfa: () => void;
+  logout: (reason?: SignOutReason) => Promise<void>;
+  signOutReason: SignOutReason | null;
+};
+
+// Kept apart from the auth context: the warning comes and goes without
+// changing the session, so it should not re-render every data consumer.
+type IdleContextValue = {
+  /** When the idle warning is showing, the time (ms) the session will end. */
+  idleDeadline: number | null;
+  staySignedIn: () => void;
 };
 
 const AuthContext = React.createContext<AuthContextValue | null>(null);
+const IdleContext = React.createContext<IdleContextValue | null>(null);
 
-function decodeJwtPayload(token: string): unknown | null {
-  const parts = token.split('.');
-  if (parts.length < 2) return null;
-  try {
-    const payload = parts[1];
-    const normalized = payload.replace(/-/g, '+').replace(/_/g, '/');
-    const padded = normalized.padEnd(Math.ceil(normalized.length / 4) * 4, '=');
-    const json = atob(padded);
-    return JSON.parse(json) as unknown;
-  } catch {
-    return null;
-  }
-}
+// Refresh this long before the access token expires.
+const REFRESH_BEFORE_EXPIRY_MS = 60_000;
+// Floor for the refresh delay, so a short-lived token cannot cause a loop.
+const MIN_REFRESH_DELAY_MS = 5_000;
+
+const DEFAULT_IDLE_TIMEOUT_MS =
+  (Number(process.env.NEXT_PUBLIC_ADMIN_IDLE_TIMEOUT_MINUTES) || 15) * 60_000;
+const DEFAULT_IDLE_WARNING_MS = 60_000;
+// Activity is shared with other tabs at most this often.
+const ACTIVITY_BROADCAST_INTERVAL_MS = 15_000;
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const;
+// The pending login is gone: the password has to be entered again.
+const MFA_CHALLENGE_ENDED_CODES = new Set(['MFA_CHALLENGE_EXPIRED', 'INVALID_MFA_TOKEN']);
 
 function tokenToAdminUser(token: string): AdminUser | null {
   const payload = decodeJwtPayload(token);
@@ -45,23 +95,55 @@ function tokenToAdminUser(token: string): AdminUser | null {
   const rec = payload as Record<string, unknown>;
   const sub = typeof rec.sub === 'string' ? rec.sub : null;
   const username = typeof rec.username === 'string' ? rec.username : null;
-  const role = rec.role === 'ADMIN' ? 'ADMIN' : null;
+  const role = ADMIN_ROLES.find((r) => r === rec.role) ?? null;
+  const gouvernorats = Array.isArray(rec.gouvernorats)
+    ? rec.gouvernorats.filter((g): g is string => typeof g === 'string')
+    : [];
 
   if (!sub || !username || !role) return null;
   const id = Number(sub);
   if (Number.isNaN(id)) return null;
-  return { id, username, role };
+  return { id, username, role, gouvernorats };
 }
 
-export function AuthProvider({ children }: { children: React.ReactNode }) {
+export function AuthProvider({
+  children,
+  idleTimeoutMs = DEFAULT_IDLE_TIMEOUT_MS,
+  idleWarningMs = DEFAULT_IDLE_WARNING_MS,
+}: {
+  children: React.ReactNode;
+  /** Inactivity after which an admin is signed out. */
+  idleTimeoutMs?: number;
+  /** How long before that the "stay signed in" dialog appears. */
+  idleWarningMs?: number;
+}) {
   const pathname = usePathname();
   const isAdminPath = (pathname ?? '').startsWith('/admin');
 
   const [status, setStatus] = React.useState<AuthStatus>('unauthenticated');
   const [accessTokenState, setAccessTokenState] = React.useState<string | null>(null);
   const [admin, setAdmin] = React.useState<AdminUser | null>(null);
+  const [signOutReason, setSignOutReason] = React.useState<SignOutReason | null>(null);
+  const [idleDeadline, setIdleDeadline] = React.useState<number | null>(null);
+  const [mfaChallenge, setMfaChallenge] = React.useState<{
+    token: string;
+    expiresAt: number;
+  } | null>(null);
+
+  const lastActivityRef = React.useRef(0);
+  const lastActivityBroadcastRef = React.useRef(0);
+  const idleWarningRef = React.useRef(false);
+  const idleLogoutRef = React.useRef(false);
+  const accessTokenRef = React.useRef<string | null>(null);
+  // Set by a sign-out in any tab until the next login. The refresh cookie can
+  // outlive a sign-out (the logout call may have failed), so it must not be
+  // used to quietly sign the admin back in.
+  const signedOutRef = React.useRef(false);
+
+  const getAccessToken = React.useCallback(() => accessTokenRef.current, []);
 
   const setAccessToken = React.useCallback((token: string | null) => {
+    accessTokenRef.current = token;
     setAccessTokenState(token);
     setAdmin(token ? tokenToAdminUser(token) : null);
   }, []);
@@ -70,19 +152,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     if (!isAdminPath) return;
 
     // If we already have an in-memory token, consider the session ready.
-    if (accessTokenState) {
+    if (accessTokenRef.current) {
       setStatus('authenticated');
       return;
     }
+    if (signedOutRef.current) {
+      setStatus('unauthenticated');
+      return;
+    }
 
     let cancelled = false;
     setStatus('loading');
 
     (async () => {
       try {
-        const res = await adminRefresh();
+        const nextToken = await refreshAccessToken();
         if (cancelled) return;
-        setAccessToken(res.accessToken);
+        setAccessToken(nextToken);
         setStatus('authenticated');
       } catch {
         if (cancelled) return;
@@ -94,39 +180,226 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     return () => {
       cancelled = true;
     };
-  }, [isAdminPath, accessTokenState, setAccessToken]);
+  }, [isAdminPath, setAccessToken]);
+
+  // Refresh shortly before expiry instead of waiting for a call to fail.
+  React.useEffect(() => {
+    if (!accessTokenState) return;
+    const expiresAt = getJwtExpiresAt(accessTokenState);
+    if (expiresAt === null) return;
+
+    const delay = Math.max(MIN_REFRESH_DELAY_MS, expiresAt - Date.now() - REFRESH_BEFORE_EXPIRY_MS);
+    const timer = window.setTimeout(async () => {
+      try {
+        setAccessToken(await refreshAccessToken());
+      } catch (e) {
+        // Network errors are left to the next API call; a rejected refresh
+        // cookie means the session is over.
+        if (isRefreshRejectedError(e)) endSession('expired');
+      }
+    }, delay);
+
+    return () => window.clearTimeout(timer);
+  }, [accessTokenState, setAccessToken]);
+
+  const markActive = React.useCallback((at: number) => {
+    lastActivityRef.current = Math.max(lastActivityRef.current, at);
+    if (idleWarningRef.current) {
+      idleWarningRef.current = false;
+      setIdleDeadline(null);
+    }
+  }, []);
+
+  // Follow logins, logouts, refreshes and activity from other tabs.
+  React.useEffect(() => {
+    return subscribeSessionEvents((event) => {
+      if (event.type === 'activity') {
+        markActive(event.at);
+        return;
+      }
+      setMfaChallenge(null);
+      if (event.type === 'logout') {
+        signedOutRef.current = true;
+        setAccessToken(null);
+        setSignOutReason(event.reason ?? null);
+        setStatus('unauthenticated');
+        return;
+      }
+      signedOutRef.current = false;
+      setAccessToken(event.accessToken);
+      if (event.type === 'login') setSignOutReason(null);
+      setStatus('authenticated');
+    });
+  }, [setAccessToken, markActive]);
+
+  const completeLogin = React.useCallback(
+    (accessToken: string) => {
+      signedOutRef.current = false;
+      setMfaChallenge(null);
+      setAccessToken(accessToken);
+      setSignOutReason(null);
+      setStatus('authenticated');
+      publishSessionEvent({ type: 'login', accessToken });
+    },
+    [setAccessToken],
+  );
 
   const login = React.useCallback(
     async (username: string, password: string) => {
       const res = await adminLogin({ username, password });
-      setAccessToken(res.accessToken);
-      setStatus('authenticated');
+      if (isMfaChallenge(res)) {
+        setMfaChallenge({ token: res.mfaToken, expiresAt: Date.now() + res.expiresIn * 1000 });
+        setStatus('mfa_required');
+        return 'mfa_required' as const;
+      }
+      completeLogin(res.accessToken);
+      return 'authenticated' as const;
     },
-    [setAccessToken],
+    [completeLogin],
   );
 
-  const logout = React.useCallback(async () => {
-    try {
-      await adminLogout();
-    } finally {
+  const cancelMfa = React.useCallback(() => {
+    setMfaChallenge(null);
+    setStatus((prev) => (prev === 'mfa_required' ? 'unauthenticated' : prev));
+  }, []);
+
+  const verifyMfa = React.useCallback(
+    async (credential: MfaCredential) => {
+      if (!mfaChallenge) throw new Error('No pending MFA challenge');
+      try {
+        const res = await adminVerifyMfa({ mfaToken: mfaChallenge.token, ...credential });
+        completeLogin(res.accessToken);
+      } catch (e) {
+        if (e instanceof ApiClientError && MFA_CHALLENGE_ENDED_CODES.has(e.code)) cancelMfa();
+        throw e;
+      }
+    },
+    [mfaChallenge, completeLogin, cancelMfa],
+  );
+
+  // A challenge left unanswered expires on the API side as well.
+  React.useEffect(() => {
+    if (!mfaChallenge) return;
+    const timer = window.setTimeout(cancelMfa, Math.max(0, mfaChallenge.expiresAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [mfaChallenge, cancelMfa]);
+
+  const logout = React.useCallback(
+    async (reason?: SignOutReason) => {
+      signedOutRef.current = true;
+      try {
+        await adminLogout();
+      } catch {
+        // Offline or already revoked: the session still ends in this browser.
+      }
       setAccessToken(null);
+      setSignOutReason(reason ?? null);
       setStatus('unauthenticated');
+      publishSessionEvent({ type: 'logout', reason });
+    },
+    [setAccessToken],
+  );
+
+  const staySignedIn = React.useCallback(() => {
+    const now = Date.now();
+    markActive(now);
+    lastActivityBroadcastRef.current = now;
+    publishSessionEvent({ type: 'activity', at: now });
+  }, [markActive]);
+
+  // Sign out after a period without mouse or keyboard input in any tab.
+  const trackIdle = status === 'authenticated' && isAdminPath;
+  React.useEffect(() => {
+    if (!trackIdle) return;
+    lastActivityRef.current = Date.now();
+    idleLogoutRef.current = false;
+
+    function check() {
+      const idleFor = Date.now() - lastActivityRef.current;
+      if (idleFor >= idleTimeoutMs) {
+        // The interval keeps ticking until the sign-out lands; sign out once.
+        if (idleLogoutRef.current) return;
+        idleLogoutRef.current = true;
+        void logout('idle');
+      } else if (idleFor >= idleTimeoutMs - idleWarningMs && !idleWarningRef.current) {
+        idleWarningRef.current = true;
+        setIdleDeadline(lastActivityRef.current + idleTimeoutMs);
+      }
+    }
+
+    function onActivity() {
+      // Once the warning shows, only "stay signed in" keeps the session.
+      if (idleWarningRef.current) return;
+      const now = Date.now();
+      lastActivityRef.current = now;
+      if (now - lastActivityBroadcastRef.current >= ACTIVITY_BROADCAST_INTERVAL_MS) {
+        lastActivityBroadcastRef.current = now;
+        publishSessionEvent({ type: 'activity', at: now });
+      }
     }
-  }, [setAccessToken]);
+
+    function onVisibilityChange() {
+      if (document.visibilityState !== 'visible') return;
+      // Timers are throttled in background tabs: catch up before counting
+      // the return to the tab as activity.
+      check();
+      onActivity();
+    }
+
+    const interval = window.setInterval(check, 1000);
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, onActivity, { passive: true });
+    }
+    document.addEventListener('visibilitychange', onVisibilityChange);
+
+    return () => {
+      window.clearInterval(interval);
+      for (const type of ACTIVITY_EVENTS) {
+        window.removeEventListener(type, onActivity);
+      }
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      idleWarningRef.current = false;
+      setIdleDeadline(null);
+    };
+  }, [trackIdle, idleTimeoutMs, idleWarningMs, logout]);
 
   const ctx = React.useMemo<AuthContextValue>(
     () => ({
       status,
       accessToken: accessTokenState,
       admin,
+      getAccessToken,
       setAccessToken,
       login,
+      verifyMfa,
+      cancelMfa,
       logout,
+      signOutReason,
     }),
-    [status, accessTokenState, admin, setAccessToken, login, logout],
+    [
+      status,
+      accessTokenState,
+      admin,
+      getAccessToken,
+      setAccessToken,
+      login,
+      verifyMfa,
+      cancelMfa,
+      logout,
+      signOutReason,
+    ],
+  );
+
+  const idleCtx = React.useMemo<IdleContextValue>(
+    () => ({ idleDeadline, staySignedIn }),
+    [idleDeadline, staySignedIn],
   );
 
-  return <AuthContext.Provider value={ctx}>{children}</AuthContext.Provider>;
+  return (
+    <AuthContext.Provider value={ctx}>
+      <IdleContext.Provider value={idleCtx}>{children}</IdleContext.Provider>
+    </AuthContext.Provider>
+  );
 }
 
 export function useAuth(): AuthContextValue {
@@ -135,4 +408,8 @@ export function useAuth(): AuthContextValue {
   return ctx;
 }
 
-
+export function useIdleTimeout(): IdleContextValue {
+  const ctx = React.useContext(IdleContext);
+  if (!ctx) throw new Error('useIdleTimeout must be used within AuthProvider');
+  return ctx;
+}
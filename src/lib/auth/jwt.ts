@@ -0,0 +1,31 @@
+/**
+ * Reads a JWT payload without verifying it. Only for UI decisions (who is
+ * signed in, when to refresh); the API remains the authority.
+ */
+export function decodeJwtPayload(token: string): unknown | null {
+  const parts = token.split(".");
+  if (parts.length < 2) return null;
+  try {
+    const payload = parts[1];
+    const normalized = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const padded = normalized.padEnd(Math.ceil(normalized.length / 4) * 4, "=");
+    const json = atob(padded);
+    return JSON.parse(json) as unknown;
+  } catch {
+    return null;
+  }
+}
+
+/** Expiry of the token in epoch milliseconds, or `null` without `exp`. */
+export function getJwtExpiresAt(token: string): number | null {
+  const payload = decodeJwtPayload(token);
+  if (!payload || typeof payload !== "object") return null;
+  const exp = (payload as Record<string, unknown>).exp;
+  return typeof exp === "number" && Number.isFinite(exp) ? exp * 1000 : null;
+}
+
+/** Whether the token expires within `marginMs` (unknown expiry counts as valid). */
+export function isJwtExpiring(token: string, marginMs = 0): boolean {
+  const expiresAt = getJwtExpiresAt(token);
+  return expiresAt !== null && expiresAt - Date.now() <= marginMs;
+}
@@ -0,0 +1,34 @@
+import type { SignOutReason } from "./auth-context";
+
+/** httpOnly cookie set by the API on login; its presence is all we can see. */
+export const ADMIN_REFRESH_COOKIE_NAME = "admin_refresh_token";
+
+export const LOGIN_PATH = "/admin/login";
+export const RETURN_TO_PARAM = "returnTo";
+
+/**
+ * `returnTo` only ever points back into the admin area, so the login page
+ * cannot be used as an open redirect.
+ */
+export function sanitizeReturnTo(
+  value: string | null | undefined
+): string | null {
+  if (!value) return null;
+  const isAdminPath =
+    value === "/admin" ||
+    value.startsWith("/admin/") ||
+    value.startsWith("/admin?");
+  if (!isAdminPath || value.startsWith(LOGIN_PATH)) return null;
+  return value;
+}
+
+export function getLoginHref(
+  opts: { returnTo?: string | null; reason?: SignOutReason | null } = {}
+): string {
+  const params = new URLSearchParams();
+  const returnTo = sanitizeReturnTo(opts.returnTo);
+  if (returnTo) params.set(RETURN_TO_PARAM, returnTo);
+  if (opts.reason) params.set("reason", opts.reason);
+  const search = params.toString();
+  return search ? `${LOGIN_PATH}?${search}` : LOGIN_PATH;
+}
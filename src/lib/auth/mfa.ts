@@ -0,0 +1,15 @@
+export const MFA_CODE_LENGTH = 6;
+
+/** Authenticator apps often show codes as "123 456". */
+export function normalizeMfaCode(value: string): string {
+  return value.replace(/\s+/g, "");
+}
+
+export function isMfaCode(value: string): boolean {
+  return new RegExp(`^\\d{${MFA_CODE_LENGTH}}$`).test(normalizeMfaCode(value));
+}
+
+/** Recovery codes are compared without dashes, spaces or case. */
+export function normalizeRecoveryCode(value: string): string {
+  return value.replace(/[\s-]+/g, "").toUpperCase();
+}
@@ -0,0 +1,32 @@
+/** Password length rules shared by every form that sets or checks one. */
+export const PASSWORD_MIN_LENGTH = 8;
+export const PASSWORD_MAX_LENGTH = 200;
+
+export const PASSWORD_STRENGTHS = [
+  "tooShort",
+  "weak",
+  "fair",
+  "good",
+  "strong",
+] as const;
+
+export type PasswordStrength = (typeof PASSWORD_STRENGTHS)[number];
+
+/**
+ * Rough estimate for the strength meter, from length and character variety.
+ * It only guides the user; the API has the final say.
+ */
+export function getPasswordStrength(password: string): PasswordStrength {
+  if (password.length < PASSWORD_MIN_LENGTH) return "tooShort";
+  const classes = [/[a-z]/, /[A-Z]/, /\d/, /[^A-Za-z0-9]/].filter((re) =>
+    re.test(password)
+  ).length;
+
+  let score = 1;
+  if (password.length >= 12) score++;
+  if (classes >= 3) score++;
+  if (classes === 4 || password.length >= 16) score++;
+  // The same character repeated is weak whatever its length.
+  if (new Set(password).size <= 2) score = 1;
+  return PASSWORD_STRENGTHS[score];
+}
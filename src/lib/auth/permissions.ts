@@ -0,0 +1,77 @@
+import * as React from "react";
+
+import { ADMIN_ROLES, type AdminRole } from "@/lib/api/client";
+import { type AdminUser, useAuth } from "@/lib/auth/auth-context";
+import { normalizeGouvernorat } from "@/lib/gouvernorats";
+
+/**
+ * What the UI lets each role do. The API enforces the same rules; this only
+ * hides controls that would fail with 403 FORBIDDEN.
+ */
+export type Permission =
+  | "cardRequests.update"
+  | "cardRequests.forceStatus"
+  | "cardRequests.bulkUpdate"
+  | "cardRequests.export"
+  | "users.manage";
+
+const ROLE_PERMISSIONS: Record<AdminRole, readonly Permission[]> = {
+  VIEWER: [],
+  AGENT: ["cardRequests.update"],
+  SUPERVISOR: [
+    "cardRequests.update",
+    "cardRequests.forceStatus",
+    "cardRequests.bulkUpdate",
+    "cardRequests.export",
+    "users.manage",
+  ],
+  ADMIN: [
+    "cardRequests.update",
+    "cardRequests.forceStatus",
+    "cardRequests.bulkUpdate",
+    "cardRequests.export",
+    "users.manage",
+  ],
+};
+
+export function hasPermission(
+  admin: AdminUser | null,
+  permission: Permission
+): boolean {
+  return !!admin && ROLE_PERMISSIONS[admin.role].includes(permission);
+}
+
+/** Agents may only update requests of the governorates assigned to them. */
+export function canUpdateCardRequest(
+  admin: AdminUser | null,
+  item: { gouvernorat: string }
+): boolean {
+  if (!admin || !hasPermission(admin, "cardRequests.update")) return false;
+  if (admin.role !== "AGENT") return true;
+  const gouvernorat = normalizeGouvernorat(item.gouvernorat);
+  return admin.gouvernorats.some(
+    (g) => normalizeGouvernorat(g) === gouvernorat
+  );
+}
+
+/**
+ * Roles an admin may give to others: nobody can grant more than their own
+ * role, and only ADMIN can create other ADMINs.
+ */
+export function getAssignableRoles(admin: AdminUser | null): AdminRole[] {
+  if (!admin || !hasPermission(admin, "users.manage")) return [];
+  const rank = ADMIN_ROLES.indexOf(admin.role);
+  return ADMIN_ROLES.filter((role) => ADMIN_ROLES.indexOf(role) <= rank);
+}
+
+export function usePermissions() {
+  const { admin } = useAuth();
+  return React.useMemo(
+    () => ({
+      can: (permission: Permission) => hasPermission(admin, permission),
+      canUpdate: (item: { gouvernorat: string }) =>
+        canUpdateCardRequest(admin, item),
+    }),
+    [admin]
+  );
+}
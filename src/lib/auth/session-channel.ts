@@ -0,0 +1,87 @@
+import type { SignOutReason } from "./auth-context";
+
+/**
+ * Keeps the admin session consistent across browser tabs.
+ *
+ * Tabs announce logins, logouts, refreshed access tokens and user activity
+ * (for the idle timeout) over a BroadcastChannel. Refreshes run under a Web
+ * Lock so only one tab at a time spends the (rotating) refresh cookie.
+ */
+
+export type SessionEvent =
+  | { type: "login"; accessToken: string }
+  | { type: "token"; accessToken: string }
+  | { type: "logout"; reason?: SignOutReason }
+  | { type: "activity"; at: number };
+
+type SessionListener = (event: SessionEvent) => void;
+
+const CHANNEL_NAME = "laposte-admin-session";
+const REFRESH_LOCK_NAME = "laposte-admin-refresh";
+
+let channel: BroadcastChannel | null = null;
+const listeners = new Set<SessionListener>();
+
+// Latest access token known to this tab, whichever tab obtained it.
+let latestAccessToken: string | null = null;
+
+function record(event: SessionEvent) {
+  if (event.type === "logout") latestAccessToken = null;
+  else if (event.type !== "activity") latestAccessToken = event.accessToken;
+}
+
+function isSessionEvent(value: unknown): value is SessionEvent {
+  if (!value || typeof value !== "object") return false;
+  const rec = value as Record<string, unknown>;
+  if (rec.type === "logout") return true;
+  if (rec.type === "activity") return typeof rec.at === "number";
+  return (
+    (rec.type === "login" || rec.type === "token") &&
+    typeof rec.accessToken === "string"
+  );
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  if (!channel) {
+    channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = (e: MessageEvent<unknown>) => {
+      if (!isSessionEvent(e.data)) return;
+      record(e.data);
+      for (const listener of listeners) listener(e.data);
+    };
+  }
+  return channel;
+}
+
+/** Records the event for this tab and announces it to the other tabs. */
+export function publishSessionEvent(event: SessionEvent) {
+  record(event);
+  getChannel()?.postMessage(event);
+}
+
+/** Events from other tabs, plus this tab's own `endSession`. */
+export function subscribeSessionEvents(listener: SessionListener): () => void {
+  getChannel();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Signs this tab and all the others out, e.g. after a rejected refresh. */
+export function endSession(reason: SignOutReason) {
+  const event: SessionEvent = { type: "logout", reason };
+  publishSessionEvent(event);
+  for (const listener of listeners) listener(event);
+}
+
+export function getLatestAccessToken(): string | null {
+  return latestAccessToken;
+}
+
+/** Runs `fn` while holding the cross-tab refresh lock (when supported). */
+export async function withRefreshLock<T>(fn: () => Promise<T>): Promise<T> {
+  if (typeof navigator === "undefined" || !navigator.locks) return fn();
+  return await navigator.locks.request(REFRESH_LOCK_NAME, fn);
+}
@@ -0,0 +1,129 @@
+import { type Locale } from "@/i18n/i18n";
+
+export type Gouvernorat = {
+  /** Canonical value sent to the API (the official French name). */
+  value: string;
+  fr: string;
+  ar: string;
+  /** Other spellings people commonly type. */
+  aliases?: readonly string[];
+  /**
+   * First two digits of the governorate's postal codes. Greater Tunis
+   * governorates share prefixes, so this is a hint, not a strict mapping.
+   */
+  postalPrefixes: readonly string[];
+};
+
+export const GOUVERNORATS: readonly Gouvernorat[] = [
+  { value: "Ariana", fr: "Ariana", ar: "أريانة", postalPrefixes: ["20"] },
+  { value: "Béja", fr: "Béja", ar: "باجة", postalPrefixes: ["90"] },
+  {
+    value: "Ben Arous",
+    fr: "Ben Arous",
+    ar: "بن عروس",
+    postalPrefixes: ["20", "11"],
+  },
+  { value: "Bizerte", fr: "Bizerte", ar: "بنزرت", postalPrefixes: ["70"] },
+  { value: "Gabès", fr: "Gabès", ar: "قابس", postalPrefixes: ["60"] },
+  { value: "Gafsa", fr: "Gafsa", ar: "قفصة", postalPrefixes: ["21"] },
+  { value: "Jendouba", fr: "Jendouba", ar: "جندوبة", postalPrefixes: ["81"] },
+  { value: "Kairouan", fr: "Kairouan", ar: "القيروان", postalPrefixes: ["31"] },
+  {
+    value: "Kasserine",
+    fr: "Kasserine",
+    ar: "القصرين",
+    postalPrefixes: ["12"],
+  },
+  { value: "Kébili", fr: "Kébili", ar: "قبلي", postalPrefixes: ["42"] },
+  {
+    value: "Le Kef",
+    fr: "Le Kef",
+    ar: "الكاف",
+    aliases: ["Kef", "El Kef"],
+    postalPrefixes: ["71"],
+  },
+  { value: "Mahdia", fr: "Mahdia", ar: "المهدية", postalPrefixes: ["51"] },
+  {
+    value: "La Manouba",
+    fr: "La Manouba",
+    ar: "منوبة",
+    aliases: ["Manouba"],
+    postalPrefixes: ["20", "11"],
+  },
+  { value: "Médenine", fr: "Médenine", ar: "مدنين", postalPrefixes: ["41"] },
+  { value: "Monastir", fr: "Monastir", ar: "المنستير", postalPrefixes: ["50"] },
+  { value: "Nabeul", fr: "Nabeul", ar: "نابل", postalPrefixes: ["80"] },
+  { value: "Sfax", fr: "Sfax", ar: "صفاقس", postalPrefixes: ["30"] },
+  {
+    value: "Sidi Bouzid",
+    fr: "Sidi Bouzid",
+    ar: "سيدي بوزيد",
+    postalPrefixes: ["91"],
+  },
+  { value: "Siliana", fr: "Siliana", ar: "سليانة", postalPrefixes: ["61"] },
+  { value: "Sousse", fr: "Sousse", ar: "سوسة", postalPrefixes: ["40"] },
+  { value: "Tataouine", fr: "Tataouine", ar: "تطاوين", postalPrefixes: ["32"] },
+  { value: "Tozeur", fr: "Tozeur", ar: "توزر", postalPrefixes: ["22"] },
+  { value: "Tunis", fr: "Tunis", ar: "تونس", postalPrefixes: ["10", "20"] },
+  { value: "Zaghouan", fr: "Zaghouan", ar: "زغوان", postalPrefixes: ["11"] },
+];
+
+/**
+ * Case-, accent- and spacing-insensitive key; also folds the Arabic letter
+ * variants people use interchangeably (أ/إ/آ, ة/ه, ى/ي).
+ */
+export function normalizeSearchKey(input: string): string {
+  return input
+    .normalize("NFD")
+    .replace(/\p{M}/gu, "")
+    .toLowerCase()
+    .replace(/[أإآ]/g, "ا")
+    .replace(/ة/g, "ه")
+    .replace(/ى/g, "ي")
+    .replace(/[\s\-'’_.]+/g, " ")
+    .trim();
+}
+
+const byKey = new Map<string, Gouvernorat>(
+  GOUVERNORATS.flatMap((g) =>
+    [g.value, g.fr, g.ar, ...(g.aliases ?? [])].map(
+      (name) => [normalizeSearchKey(name), g] as const
+    )
+  )
+);
+
+export function findGouvernorat(input: string): Gouvernorat | undefined {
+  return byKey.get(normalizeSearchKey(input));
+}
+
+/** Canonical value when the input names a known governorate, else trimmed. */
+export function normalizeGouvernorat(input: string): string {
+  return findGouvernorat(input)?.value ?? input.trim();
+}
+
+export function getGouvernoratLabel(g: Gouvernorat, locale: Locale): string {
+  return locale === "ar" ? g.ar : g.fr;
+}
+
+export function searchGouvernorats(query: string): Gouvernorat[] {
+  const q = normalizeSearchKey(query);
+  if (!q) return [...GOUVERNORATS];
+  return GOUVERNORATS.filter((g) =>
+    [g.fr, g.ar, ...(g.aliases ?? [])].some((name) =>
+      normalizeSearchKey(name).includes(q)
+    )
+  );
+}
+
+/**
+ * Whether a 4-digit postal code is plausible for the governorate; `null` when
+ * either value is incomplete or unknown.
+ */
+export function postalCodeMatchesGouvernorat(
+  codePostal: string,
+  gouvernorat: string
+): boolean | null {
+  const g = findGouvernorat(gouvernorat);
+  if (!g || !/^[0-9]{4}$/.test(codePostal.trim())) return null;
+  return g.postalPrefixes.includes(codePostal.trim().slice(0, 2));
+}
@@ -0,0 +1,47 @@
+import {
+  CARD_REQUEST_STATUSES,
+  type CardRequestStatus,
+} from "@/lib/api/client";
+
+/**
+ * Card requests move along a linear flow; CANCELLED is a terminal branch
+ * reachable from any non-final step. DELIVERED and CANCELLED are final.
+ */
+export const STATUS_FLOW = [
+  "CREATED",
+  "IN_PROGRESS",
+  "READY",
+  "DELIVERED",
+] as const satisfies readonly CardRequestStatus[];
+
+export const STATUS_TRANSITIONS: Record<
+  CardRequestStatus,
+  readonly CardRequestStatus[]
+> = {
+  CREATED: ["IN_PROGRESS", "CANCELLED"],
+  IN_PROGRESS: ["READY", "CANCELLED"],
+  READY: ["DELIVERED", "CANCELLED"],
+  DELIVERED: [],
+  CANCELLED: [],
+};
+
+/** Statuses that can only be set once a pickup point is known. */
+export const STATUSES_REQUIRING_PICKUP: readonly CardRequestStatus[] = [
+  "READY",
+];
+
+export function isCardRequestStatus(value: string): value is CardRequestStatus {
+  return (CARD_REQUEST_STATUSES as readonly string[]).includes(value);
+}
+
+export function getNextStatuses(from: string): readonly CardRequestStatus[] {
+  return isCardRequestStatus(from) ? STATUS_TRANSITIONS[from] : [];
+}
+
+export function canTransition(from: string, to: CardRequestStatus): boolean {
+  return getNextStatuses(from).includes(to);
+}
+
+export function isFinalStatus(status: string): boolean {
+  return isCardRequestStatus(status) && STATUS_TRANSITIONS[status].length === 0;
+}
@@ -0,0 +1,32 @@
+import * as React from "react";
+
+/**
+ * Seconds left before a rate-limited action may be retried. The countdown
+ * follows the wall clock, so it stays right in throttled background tabs.
+ */
+export function useCooldown() {
+  const [seconds, setSeconds] = React.useState(0);
+  const [deadline, setDeadline] = React.useState<number | null>(null);
+
+  React.useEffect(() => {
+    if (deadline === null) return;
+    const id = window.setInterval(() => {
+      const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000));
+      setSeconds(left);
+      if (left === 0) setDeadline(null);
+    }, 1000);
+    return () => window.clearInterval(id);
+  }, [deadline]);
+
+  const start = React.useCallback((nextSeconds: number) => {
+    setSeconds(nextSeconds);
+    setDeadline(Date.now() + nextSeconds * 1000);
+  }, []);
+
+  const reset = React.useCallback(() => {
+    setSeconds(0);
+    setDeadline(null);
+  }, []);
+
+  return { seconds, start, reset };
+}
@@ -0,0 +1,61 @@
+import { NextResponse, type NextRequest } from "next/server";
+
+import {
+  isLocale,
+  LOCALE_COOKIE_MAX_AGE,
+  LOCALE_COOKIE_NAME,
+  LOCALE_QUERY_PARAM,
+} from "@/i18n/i18n";
+import { PATHNAME_HEADER } from "@/i18n/server";
+import {
+  ADMIN_REFRESH_COOKIE_NAME,
+  getLoginHref,
+  LOGIN_PATH,
+} from "@/lib/auth/login-redirect";
+
+function isProtectedAdminPath(pathname: string): boolean {
+  if (pathname === LOGIN_PATH || pathname.startsWith(`${LOGIN_PATH}/`)) {
+    return false;
+  }
+  return pathname === "/admin" || pathname.startsWith("/admin/");
+}
+
+export function proxy(request: NextRequest) {
+  const { pathname, search, searchParams } = request.nextUrl;
+
+  // `?lang=` wins for this render and is remembered for the next visits.
+  const lang = searchParams.get(LOCALE_QUERY_PARAM);
+  const override = lang && isLocale(lang) ? lang : null;
+
+  let response: NextResponse;
+  if (
+    isProtectedAdminPath(pathname) &&
+    !request.cookies.has(ADMIN_REFRESH_COOKIE_NAME)
+  ) {
+    // No session at all: skip loading the admin UI just to be sent away.
+    // A present cookie may still be expired; the client handles that case.
+    const loginHref = getLoginHref({ returnTo: `${pathname}${search}` });
+    response = NextResponse.redirect(new URL(loginHref, request.url));
+  } else {
+    const requestHeaders = new Headers(request.headers);
+    requestHeaders.set(PATHNAME_HEADER, pathname);
+    if (override) {
+      request.cookies.set(LOCALE_COOKIE_NAME, override);
+      requestHeaders.set("cookie", request.cookies.toString());
+    }
+    response = NextResponse.next({ request: { headers: requestHeaders } });
+  }
+
+  if (override) {
+    response.cookies.set(LOCALE_COOKIE_NAME, override, {
+      path: "/",
+      maxAge: LOCALE_COOKIE_MAX_AGE,
+      sameSite: "lax",
+    });
+  }
+  return response;
+}
+
+export const config = {
+  matcher: ["/((?!api|_next/static|_next/image|favicon.ico|.*\\..*).*)"],
+};